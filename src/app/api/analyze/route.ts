@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import {
+  MAX_UPLOAD_BYTES,
+  parseColorCalibration,
+  parseSoilRegion,
+  type AnalyzeErrorResponse,
+} from "@/lib/soil/api";
+import { KNOWLEDGE_BASE_VERSION, hashInputs } from "@/lib/soil/provenance";
+import { ImageDecodeError, getSoilModelProvider, type SoilModelProvider } from "@/lib/soil/providers";
+import type { SoilResult } from "@/lib/soil/types";
+
+export const runtime = "nodejs";
+
+function error(message: string, status: number) {
+  return NextResponse.json<AnalyzeErrorResponse>({ error: message }, { status });
+}
+
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return error("Expected multipart/form-data with an \"image\" field", 400);
+  }
+
+  const image = form.get("image");
+  if (!(image instanceof File)) {
+    return error("Missing \"image\" file field", 400);
+  }
+  if (!image.type.startsWith("image/")) {
+    return error("Uploaded file is not an image", 415);
+  }
+  if (image.size > MAX_UPLOAD_BYTES) {
+    return error("Image size must be less than 10MB", 413);
+  }
+
+  const regionField = form.get("region");
+  const region = parseSoilRegion(regionField);
+  if (regionField && !region) {
+    return error("\"region\" must be JSON {x, y, width, height} with fractions between 0 and 1", 400);
+  }
+
+  const calibrationField = form.get("calibration");
+  const calibration = parseColorCalibration(calibrationField);
+  if (calibrationField && !calibration) {
+    return error("\"calibration\" is not a valid colour calibration", 400);
+  }
+
+  let provider: SoilModelProvider;
+  try {
+    provider = getSoilModelProvider();
+  } catch {
+    return error("Soil analysis is not available: the server's model provider is misconfigured", 500);
+  }
+
+  const data = new Uint8Array(await image.arrayBuffer());
+  let result: SoilResult | null;
+  try {
+    result = await provider.analyze({
+      data,
+      mimeType: image.type,
+      region,
+      calibration,
+    });
+  } catch (e) {
+    if (e instanceof ImageDecodeError) return error(e.message, 422);
+    return error("Soil analysis failed on the server. Please try again.", 502);
+  }
+
+  if (!result) {
+    return error("No soil could be found in this image", 422);
+  }
+  return NextResponse.json<SoilResult>({
+    ...result,
+    region,
+    calibration,
+    provenance: {
+      provider: provider.id,
+      version: provider.version,
+      knowledgeBase: KNOWLEDGE_BASE_VERSION,
+      inputHash: await hashInputs(data, { region, calibration }),
+    },
+  });
+}
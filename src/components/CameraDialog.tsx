@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Camera, Flashlight, FlashlightOff } from "lucide-react";
+import {
+  VIEWFINDER_HINTS,
+  VIEWFINDER_SAMPLE_SIDE,
+  assessViewfinderFrame,
+  type ViewfinderState,
+} from "@/lib/soil/viewfinder";
+
+interface CameraDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCapture: (file: File) => void;
+}
+
+// Share of the shorter video side covered by the framing box
+const FRAME_SIZE = 0.6;
+const HINT_INTERVAL_MS = 400;
+
+// Torch is not in the standard DOM typings yet
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+export default function CameraDialog({ open, onOpenChange, onCapture }: CameraDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const previousFrameRef = useRef<ImageData | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState("");
+  const [ready, setReady] = useState(false);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [viewfinder, setViewfinder] = useState<ViewfinderState | null>(null);
+
+  // Start the chosen camera while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: deviceId
+          ? { deviceId: { exact: deviceId } }
+          : { facingMode: "environment", width: { ideal: 1920 }, height: { ideal: 1080 } },
+      })
+      .then(async (stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        const track = stream.getVideoTracks()[0];
+        setTorchSupported(!!(track.getCapabilities?.() as TorchCapabilities | undefined)?.torch);
+        setTorchOn(false);
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        // Device labels are only available once permission has been granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCameras(devices.filter((device) => device.kind === "videoinput"));
+      })
+      .catch(() => {
+        if (cancelled) return;
+        toast.error("Camera access denied or not available");
+        onOpenChange(false);
+      });
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+      previousFrameRef.current = null;
+      setReady(false);
+      setViewfinder(null);
+    };
+  }, [open, deviceId, onOpenChange]);
+
+  // Live framing hints from the area inside the box
+  useEffect(() => {
+    if (!open || !ready) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = VIEWFINDER_SAMPLE_SIDE;
+    canvas.height = VIEWFINDER_SAMPLE_SIDE;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return;
+
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.videoWidth === 0) return;
+      const side = Math.min(video.videoWidth, video.videoHeight) * FRAME_SIZE;
+      ctx.drawImage(
+        video,
+        (video.videoWidth - side) / 2,
+        (video.videoHeight - side) / 2,
+        side,
+        side,
+        0,
+        0,
+        VIEWFINDER_SAMPLE_SIDE,
+        VIEWFINDER_SAMPLE_SIDE
+      );
+      const frame = ctx.getImageData(0, 0, VIEWFINDER_SAMPLE_SIDE, VIEWFINDER_SAMPLE_SIDE);
+      setViewfinder(assessViewfinderFrame(frame, previousFrameRef.current));
+      previousFrameRef.current = frame;
+    }, HINT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [open, ready]);
+
+  const toggleTorch = useCallback(async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch {
+      toast.error("The torch could not be switched");
+    }
+  }, [torchOn]);
+
+  const capture = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0);
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        toast.error("Could not capture the photo");
+        return;
+      }
+      onCapture(new File([blob], `camera-capture-${Date.now()}.jpg`, { type: "image/jpeg" }));
+      onOpenChange(false);
+    }, "image/jpeg", 0.92);
+  }, [onCapture, onOpenChange]);
+
+  const hint = viewfinder?.hints[0];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Take Soil Photo</DialogTitle>
+          <DialogDescription>
+            Fill the box with bare soil in even daylight, then press the shutter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative overflow-hidden rounded-lg bg-black aspect-video">
+          <video
+            ref={videoRef}
+            className="h-full w-full object-cover"
+            playsInline
+            muted
+            onLoadedData={() => setReady(true)}
+          />
+          {ready && (
+            <>
+              <div
+                className={`absolute left-1/2 top-1/2 aspect-square -translate-x-1/2 -translate-y-1/2 rounded-lg border-2 pointer-events-none ${
+                  viewfinder?.ready ? "border-success" : "border-white/80"
+                }`}
+                style={{ height: `${FRAME_SIZE * 100}%`, boxShadow: "0 0 0 9999px rgb(0 0 0 / 0.35)" }}
+              />
+              <div className="absolute bottom-3 left-1/2 -translate-x-1/2 rounded-full bg-black/60 px-3 py-1 text-sm text-white">
+                {hint ? VIEWFINDER_HINTS[hint] : viewfinder ? "Looks good" : "Checking framing..."}
+              </div>
+            </>
+          )}
+          {!ready && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-white/80">
+              Starting camera...
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          {cameras.length > 1 && (
+            <Select value={deviceId} onValueChange={setDeviceId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Rear camera" />
+              </SelectTrigger>
+              <SelectContent>
+                {cameras.map((camera, i) => (
+                  <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${i + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {torchSupported && (
+            <Button variant="outline" size="sm" onClick={toggleTorch}>
+              {torchOn ? <FlashlightOff className="h-4 w-4 mr-1" /> : <Flashlight className="h-4 w-4 mr-1" />}
+              {torchOn ? "Torch Off" : "Torch On"}
+            </Button>
+          )}
+          <Button className="ml-auto" onClick={capture} disabled={!ready}>
+            <Camera className="h-4 w-4 mr-2" />
+            Capture
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Check } from "lucide-react";
+import { compareCrops, type ComparisonCell } from "@/lib/crops/compare";
+import type { CropSuggestion } from "@/lib/soil/types";
+
+interface CropComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  crops: CropSuggestion[];
+}
+
+// Share of the width, in percent, kept for the row labels
+const LABEL_PANEL_SIZE = 22;
+
+function cellClassName(cell: ComparisonCell) {
+  if (cell.best) return "bg-success/15 font-medium";
+  if (cell.limiting) return "text-destructive";
+  return "";
+}
+
+/** Side-by-side comparison of the crops picked for it, in resizable columns. */
+export default function CropComparisonDialog({ open, onOpenChange, crops }: CropComparisonDialogProps) {
+  const rows = useMemo(() => compareCrops(crops), [crops]);
+  const cropPanelSize = (100 - LABEL_PANEL_SIZE) / Math.max(crops.length, 1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Crops</DialogTitle>
+          <DialogDescription>
+            Drag the dividers to resize the columns. The best value in each row is highlighted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ResizablePanelGroup direction="horizontal" className="rounded-lg border text-sm">
+          <ResizablePanel defaultSize={LABEL_PANEL_SIZE} minSize={12}>
+            <div className="h-12 px-3 flex items-center border-b font-medium text-muted-foreground">Factor</div>
+            {rows.map((row) => (
+              <div key={row.id} className="h-10 px-3 flex items-center border-b last:border-b-0 font-medium truncate">
+                {row.label}
+              </div>
+            ))}
+          </ResizablePanel>
+          {crops.map((crop, column) => (
+            <React.Fragment key={crop.name}>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={cropPanelSize} minSize={12}>
+                <div className="h-12 px-3 flex items-center border-b font-heading font-medium truncate">{crop.name}</div>
+                {rows.map((row) => {
+                  const cell = row.cells[column];
+                  return (
+                    <div
+                      key={row.id}
+                      title={cell.detail}
+                      className={`h-10 px-3 flex items-center gap-1 border-b last:border-b-0 ${cellClassName(cell)}`}
+                    >
+                      <span className="truncate">{cell.text}</span>
+                      {cell.best && <Check className="h-3 w-3 shrink-0 text-success" />}
+                    </div>
+                  );
+                })}
+              </ResizablePanel>
+            </React.Fragment>
+          ))}
+        </ResizablePanelGroup>
+
+        <p className="text-xs text-muted-foreground">
+          Factor rows show each factor&apos;s score out of 100; red marks a crop&apos;s limiting factor. Yields are
+          of different produce, so no best yield is marked. Hover a value for more detail.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
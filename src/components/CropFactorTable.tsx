@@ -0,0 +1,75 @@
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LIMITING_FACTOR_MARGIN, limitingFactor } from "@/lib/crops/suitability";
+import type { SuitabilityFactor } from "@/lib/soil/types";
+
+interface CropFactorTableProps {
+  factors: SuitabilityFactor[];
+  suitability: number;
+}
+
+function formatImpact(factor: SuitabilityFactor) {
+  if (factor.score === null) return "—";
+  return factor.impact === 0 ? "±0" : `${factor.impact}`;
+}
+
+/** How each factor moved a crop's suitability, with the limiting one highlighted. */
+export default function CropFactorTable({ factors, suitability }: CropFactorTableProps) {
+  const limiting = limitingFactor(factors);
+
+  return (
+    <div className="space-y-2">
+      <h5 className="font-medium">Suitability Breakdown</h5>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Factor</TableHead>
+            <TableHead>Site</TableHead>
+            <TableHead>Crop prefers</TableHead>
+            <TableHead className="text-right">Score</TableHead>
+            <TableHead className="text-right">Effect</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {factors.map((factor) => {
+            const isLimiting = factor === limiting;
+            return (
+              <TableRow
+                key={factor.id}
+                className={isLimiting ? "bg-destructive/10 hover:bg-destructive/15" : factor.score === null ? "text-muted-foreground" : undefined}
+              >
+                <TableCell className="whitespace-normal align-top">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{factor.label}</span>
+                    {isLimiting && <Badge variant="destructive">Limiting</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{factor.note}</div>
+                </TableCell>
+                <TableCell className="whitespace-normal align-top">{factor.observed}</TableCell>
+                <TableCell className="whitespace-normal align-top">{factor.preferred}</TableCell>
+                <TableCell className="text-right align-top">{factor.score ?? "—"}</TableCell>
+                <TableCell className={`text-right align-top ${factor.impact < 0 ? "text-destructive" : ""}`}>
+                  {formatImpact(factor)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={4}>Suitability (from 100)</TableCell>
+            <TableCell className="text-right">{suitability}%</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Effect is the points each factor took off a perfect score. Factors shown with a dash could not be assessed and
+        do not count. The limiting factor also holds the total to within {LIMITING_FACTOR_MARGIN} points of its own
+        score.
+      </p>
+    </div>
+  );
+}
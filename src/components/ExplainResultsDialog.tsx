@@ -0,0 +1,177 @@
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { getReferenceCard } from "@/lib/soil/calibration";
+import { classScoreLabel } from "@/lib/soil/classifier";
+import {
+  MOISTURE_LABELS,
+  ORGANIC_MATTER_LABELS,
+  certaintyLabel,
+  formatOrganicMatterRange,
+} from "@/lib/soil/condition";
+import { getSoilKnowledge } from "@/lib/soil/knowledge";
+import { LAB_PARAMETERS } from "@/lib/soil/lab";
+import type { SoilResult } from "@/lib/soil/types";
+
+interface ExplainResultsDialogProps {
+  soil: SoilResult;
+}
+
+function formatRange([min, max]: [number, number], digits = 1) {
+  return `${min.toFixed(digits)}–${max.toFixed(digits)}`;
+}
+
+export default function ExplainResultsDialog({ soil }: ExplainResultsDialogProps) {
+  const knowledge = getSoilKnowledge(soil.type);
+  const measuredPh = soil.lab?.ph;
+  const labEntries = LAB_PARAMETERS.filter((p) => soil.lab?.[p.key] !== undefined);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Explain Results
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Soil Analysis Explanation</DialogTitle>
+          <DialogDescription>What the result is based on, and what it means for managing this soil.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            {soil.color && (
+              <div
+                className="w-8 h-8 rounded border"
+                style={{ backgroundColor: soil.color }}
+              />
+            )}
+            <div>
+              <h4 className="font-medium">{soil.type}</h4>
+              <p className="text-sm text-muted-foreground">
+                {soil.texture.source === "lab" ? "Texture measured by a lab" : classScoreLabel(soil.confidence / 100)}
+              </p>
+            </div>
+          </div>
+          <p className="text-sm">{soil.description}</p>
+
+          <div className="space-y-2">
+            <h5 className="font-medium">Measured Features:</h5>
+            <ul className="text-sm space-y-1 text-muted-foreground">
+              {soil.munsell && (
+                <li>
+                  • Colour: Munsell {soil.munsell.notation} (hue {soil.munsell.hue}, value {soil.munsell.value}, chroma {soil.munsell.chroma})
+                </li>
+              )}
+              <li>
+                • {soil.texture.source === "lab" ? "Measured" : "Estimated"} texture: {soil.texture.sand}% sand, {soil.texture.silt}% silt,
+                {" "}{soil.texture.clay}% clay (±{soil.texture.uncertainty} points)
+              </li>
+              <li>• Distance to the nearest other texture class: {soil.texture.boundaryDistance} points</li>
+              {soil.region && (
+                <li>• Analysed region: {Math.round(soil.region.width * soil.region.height * 100)}% of the image</li>
+              )}
+              {soil.calibration && (
+                <li>
+                  • Colour corrected with {getReferenceCard(soil.calibration.reference)?.label ?? soil.calibration.reference}
+                  {" "}({soil.calibration.method === "auto" ? "detected" : "tapped"}): card measured
+                  {" "}rgb({soil.calibration.sample.r}, {soil.calibration.sample.g}, {soil.calibration.sample.b}),
+                  {" "}gains R×{soil.calibration.gains[0]} G×{soil.calibration.gains[1]} B×{soil.calibration.gains[2]}
+                </li>
+              )}
+              {soil.images && (
+                <li>
+                  • {soil.images.length} images combined{soil.agreement !== undefined && `, ${soil.agreement}% agreeing on the class`}
+                </li>
+              )}
+              {soil.moisture && (
+                <li>
+                  • Surface moisture: {MOISTURE_LABELS[soil.moisture.state]} ({certaintyLabel(soil.moisture).toLowerCase()})
+                </li>
+              )}
+              {soil.organicMatter && (
+                <li>
+                  • Organic matter: {ORGANIC_MATTER_LABELS[soil.organicMatter.band]}, {formatOrganicMatterRange(soil.organicMatter)}
+                  {" "}({certaintyLabel(soil.organicMatter).toLowerCase()})
+                </li>
+              )}
+              {labEntries.length > 0 && (
+                <li>
+                  • Lab values: {labEntries.map((p) => `${p.label} ${soil.lab?.[p.key]}${p.unit && ` ${p.unit}`}`).join(", ")}
+                </li>
+              )}
+            </ul>
+          </div>
+
+          <div className="space-y-2">
+            <h5 className="font-medium">Class Scores:</h5>
+            {soil.texture.source === "image" && (
+              <p className="text-xs text-muted-foreground">
+                Relative scores from a hand-tuned colour model. They rank the classes but are not probabilities: the model has not been tested against lab results.
+              </p>
+            )}
+            {[{ type: soil.type, probability: soil.confidence / 100 }, ...soil.alternatives].map((entry) => (
+              <div key={entry.type} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{entry.type}</span>
+                  <span className="text-muted-foreground">{classScoreLabel(entry.probability)}</span>
+                </div>
+                <Progress value={entry.probability * 100} className="h-2" />
+              </div>
+            ))}
+          </div>
+
+          {knowledge && (
+            <>
+              <div className="space-y-2">
+                <h5 className="font-medium">Key Characteristics:</h5>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Drainage:</span> {knowledge.drainage}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Water holding:</span> {knowledge.waterHolding}
+                    {" "}({knowledge.availableWater[0]}–{knowledge.availableWater[1]} mm/m)
+                  </div>
+                  <div className="flex items-center gap-1 flex-wrap">
+                    <span className="text-muted-foreground">Typical pH:</span> {formatRange(knowledge.typicalPh)}
+                    {measuredPh !== undefined && (
+                      <Badge
+                        variant={measuredPh < knowledge.typicalPh[0] || measuredPh > knowledge.typicalPh[1] ? "destructive" : "outline"}
+                      >
+                        measured {measuredPh}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Workability:</span> {knowledge.workability}
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h5 className="font-medium">Common Deficiencies:</h5>
+                <ul className="text-sm space-y-1 text-muted-foreground">
+                  {knowledge.deficiencies.map((item) => (
+                    <li key={item}>• {item}</li>
+                  ))}
+                </ul>
+              </div>
+              <div className="space-y-2">
+                <h5 className="font-medium">Management Tips:</h5>
+                <ul className="text-sm space-y-1 text-muted-foreground">
+                  {knowledge.management.map((item) => (
+                    <li key={item}>• {item}</li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
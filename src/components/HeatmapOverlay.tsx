@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import type { ClassHeatmap } from "@/lib/soil/heatmap";
+
+/** "cluster" shows the dominant colour cluster; anything else is a class name. */
+export type HeatmapLayer = "cluster" | string;
+
+interface HeatmapOverlayProps {
+  heatmap: ClassHeatmap;
+  layer: HeatmapLayer;
+}
+
+// Heat colour for cells that score high, and the tint for cells without soil
+const HEAT_RGB = "239, 68, 68";
+const NO_SOIL_FILL = "rgba(100, 116, 139, 0.6)";
+const MAX_ALPHA = 0.75;
+
+/** Draws one heatmap layer, one pixel per cell, stretched over the image. */
+export default function HeatmapOverlay({ heatmap, layer }: HeatmapOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const classIndex = heatmap.classes.indexOf(layer);
+
+    ctx.clearRect(0, 0, heatmap.columns, heatmap.rows);
+    heatmap.cells.forEach((cell, i) => {
+      const x = i % heatmap.columns;
+      const y = Math.floor(i / heatmap.columns);
+      if (!cell.probabilities) {
+        ctx.fillStyle = NO_SOIL_FILL;
+      } else {
+        const score = layer === "cluster" ? cell.cluster : cell.probabilities[classIndex] ?? 0;
+        ctx.fillStyle = `rgba(${HEAT_RGB}, ${(score * MAX_ALPHA).toFixed(3)})`;
+      }
+      ctx.fillRect(x, y, 1, 1);
+    });
+  }, [heatmap, layer]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={heatmap.columns}
+      height={heatmap.rows}
+      className="absolute inset-0 h-full w-full pointer-events-none"
+      style={{ imageRendering: "pixelated" }}
+    />
+  );
+}
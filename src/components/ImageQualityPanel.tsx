@@ -0,0 +1,45 @@
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { QualityReport, QualityStatus } from "@/lib/soil/quality";
+
+interface ImageQualityPanelProps {
+  report: QualityReport;
+}
+
+const STATUS_LABELS: Record<QualityStatus, string> = {
+  pass: "Good",
+  warn: "Check",
+  block: "Retake",
+};
+
+const STATUS_VARIANTS: Record<QualityStatus, "secondary" | "outline" | "destructive"> = {
+  pass: "secondary",
+  warn: "outline",
+  block: "destructive",
+};
+
+export default function ImageQualityPanel({ report }: ImageQualityPanelProps) {
+  return (
+    <div className="space-y-3 p-3 border rounded-lg text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Image Quality</span>
+        <Badge variant={STATUS_VARIANTS[report.status]}>
+          {report.status === "block" ? "Retake photo" : report.status === "warn" ? "Usable with caution" : "Ready to analyze"}
+        </Badge>
+      </div>
+      {report.checks.map((check) => (
+        <div key={check.id} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span>{check.label}</span>
+            <Badge variant={STATUS_VARIANTS[check.status]}>{STATUS_LABELS[check.status]}</Badge>
+          </div>
+          <Progress value={check.score} className="h-1.5" />
+          {check.guidance && <p className="text-xs text-muted-foreground">{check.guidance}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useCallback, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { FileSpreadsheet } from "lucide-react";
+import { getLabParameter, validateLabValues } from "@/lib/soil/lab";
+import { LabReportError, readLabReport, sampleLabValues, type LabReport } from "@/lib/soil/lab-report";
+import type { LabParameterKey, LabValues } from "@/lib/soil/types";
+
+interface LabReportImportProps {
+  /** Values already entered; the report's values are added to them. */
+  current: LabValues | null;
+  onAttach: (values: LabValues) => void;
+}
+
+export default function LabReportImport({ current, onAttach }: LabReportImportProps) {
+  const [report, setReport] = useState<LabReport | null>(null);
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [reading, setReading] = useState(false);
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after cancelling
+    e.target.value = "";
+    if (!file) return;
+
+    setReading(true);
+    try {
+      setReport(await readLabReport(file));
+      setSampleIndex(0);
+    } catch (error) {
+      toast.error(error instanceof LabReportError ? error.message : "Could not read this lab report");
+    } finally {
+      setReading(false);
+    }
+  }, []);
+
+  const sample = report?.samples[sampleIndex];
+  const values = sample ? sampleLabValues(sample) : {};
+  const skipped = sample?.mapped.filter((entry) => entry.error).length ?? 0;
+
+  // Imported values replace matching fields, so the combined set is checked
+  // again, e.g. for a sand, silt and clay split taken partly from each
+  const merged = validateLabValues(
+    Object.fromEntries(Object.entries({ ...current, ...values }).map(([key, value]) => [key, String(value)]))
+  );
+  const conflicts = Object.entries(merged.errors) as [LabParameterKey, string][];
+
+  const handleAttach = useCallback(() => {
+    onAttach(merged.values);
+    setReport(null);
+  }, [onAttach, merged.values]);
+
+  return (
+    <>
+      <Label htmlFor="lab-report-input">
+        <Button variant="outline" className="cursor-pointer" disabled={reading} asChild>
+          <span>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {reading ? "Reading Report..." : "Import Lab Report"}
+          </span>
+        </Button>
+      </Label>
+      <input
+        id="lab-report-input"
+        type="file"
+        accept=".csv,.txt,.pdf,text/csv,application/pdf"
+        className="hidden"
+        disabled={reading}
+        onChange={handleFileChange}
+      />
+
+      <Dialog open={!!report} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Lab Report</DialogTitle>
+            <DialogDescription>
+              Check the values read from {report?.fileName} before attaching them to the analysis.
+            </DialogDescription>
+          </DialogHeader>
+
+          {report && sample && (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              {report.samples.length > 1 && (
+                <div className="space-y-1">
+                  <Label>Sample</Label>
+                  <Select value={String(sampleIndex)} onValueChange={(value) => setSampleIndex(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {report.samples.map((s, i) => (
+                        <SelectItem key={i} value={String(i)}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {sample.mapped.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Parameter</TableHead>
+                      <TableHead>In report</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sample.mapped.map((entry) => {
+                      const parameter = getLabParameter(entry.key);
+                      return (
+                        <TableRow key={entry.key}>
+                          <TableCell>{parameter.label}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {entry.source}: {entry.raw}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {entry.error ? (
+                              <span className="text-xs text-destructive">{entry.error}</span>
+                            ) : (
+                              <>
+                                {entry.value}{parameter.unit && ` ${parameter.unit}`}
+                                {entry.conversion && (
+                                  <div className="text-xs text-muted-foreground">{entry.conversion}</div>
+                                )}
+                              </>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  None of the columns in this report match a known soil test parameter.
+                </p>
+              )}
+
+              {sample.unmapped.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Not imported</h4>
+                  <p className="text-xs text-muted-foreground">
+                    These columns were not recognised as soil test parameters. Enter any that matter by hand.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {sample.unmapped.map((column, i) => (
+                      <Badge key={`${column.source}-${i}`} variant="outline" className="font-normal">
+                        {column.source}: {column.raw}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {skipped > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {skipped} value{skipped > 1 ? "s are" : " is"} out of range and will not be attached.
+                </p>
+              )}
+
+              {conflicts.length > 0 && (
+                <div className="space-y-1 text-sm text-destructive">
+                  <p className="font-medium">Combined with the values already entered:</p>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {conflicts.map(([key, error]) => (
+                      <li key={key}>{getLabParameter(key).label}: {error}</li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground">Fix or clear the entered values, then import again.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReport(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAttach} disabled={Object.keys(values).length === 0 || conflicts.length > 0}>
+              Attach Values
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useCallback, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { LAB_PARAMETERS, validateLabValues, type LabValidation } from "@/lib/soil/lab";
+import type { LabParameterKey, LabValues } from "@/lib/soil/types";
+
+interface LabValuesFormProps {
+  values: LabValues | null;
+  onApply: (values: LabValues | null) => void;
+}
+
+function toInput(values: LabValues | null) {
+  const input: Partial<Record<LabParameterKey, string>> = {};
+  for (const parameter of LAB_PARAMETERS) {
+    const value = values?.[parameter.key];
+    if (value !== undefined) input[parameter.key] = String(value);
+  }
+  return input;
+}
+
+export default function LabValuesForm({ values, onApply }: LabValuesFormProps) {
+  const [input, setInput] = useState(() => toInput(values));
+  const [errors, setErrors] = useState<LabValidation["errors"]>({});
+
+  const handleApply = useCallback(() => {
+    const validation = validateLabValues(input);
+    setErrors(validation.errors);
+
+    if (Object.keys(validation.errors).length > 0) {
+      toast.error("Please fix the highlighted lab values");
+      return;
+    }
+    if (Object.keys(validation.values).length === 0) {
+      toast.error("Enter at least one lab value");
+      return;
+    }
+    onApply(validation.values);
+  }, [input, onApply]);
+
+  const handleClear = useCallback(() => {
+    setInput({});
+    setErrors({});
+    onApply(null);
+  }, [onApply]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+        {LAB_PARAMETERS.map((parameter) => (
+          <div key={parameter.key} className="space-y-1">
+            <Label htmlFor={`lab-${parameter.key}`}>
+              {parameter.label}
+              {parameter.unit && <span className="text-muted-foreground font-normal"> ({parameter.unit})</span>}
+            </Label>
+            <Input
+              id={`lab-${parameter.key}`}
+              type="number"
+              inputMode="decimal"
+              min={parameter.min}
+              max={parameter.max}
+              step={parameter.step}
+              placeholder="—"
+              value={input[parameter.key] ?? ""}
+              aria-invalid={!!errors[parameter.key]}
+              onChange={(e) => setInput((prev) => ({ ...prev, [parameter.key]: e.target.value }))}
+            />
+            {errors[parameter.key] && (
+              <p className="text-xs text-destructive">{errors[parameter.key]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleApply}>
+          Apply Lab Values
+        </Button>
+        {values && (
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import React from 'react';
+import { shortHash } from "@/lib/soil/provenance";
+import type { ResultProvenance } from "@/lib/soil/types";
+
+interface ProvenanceDetailsProps {
+  title: string;
+  provenance: ResultProvenance;
+}
+
+/** What produced a result, for the "About this result" sections. */
+export default function ProvenanceDetails({ title, provenance }: ProvenanceDetailsProps) {
+  return (
+    <div className="p-3 bg-muted rounded-lg">
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        <dt className="text-muted-foreground">Model</dt>
+        <dd>{provenance.provider}</dd>
+        <dt className="text-muted-foreground">Version</dt>
+        <dd>{provenance.version}</dd>
+        <dt className="text-muted-foreground">Knowledge base</dt>
+        <dd>{provenance.knowledgeBase}</dd>
+        <dt className="text-muted-foreground">Input hash</dt>
+        <dd className="font-mono break-all" title={provenance.inputHash}>{shortHash(provenance.inputHash)}</dd>
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useCallback, useRef, useState } from 'react';
+import type { SoilRegion } from "@/lib/soil/types";
+
+export type SelectionMode = "view" | "region" | "point";
+
+interface RegionSelectorProps {
+  src: string;
+  region: SoilRegion | null;
+  onChange: (region: SoilRegion | null) => void;
+  /** "region" draws a rectangle, "point" reports single taps, "view" does neither. */
+  mode: SelectionMode;
+  onPoint?: (point: { x: number; y: number }) => void;
+  /** Point to highlight, as fractions of the image size. */
+  marker?: { x: number; y: number } | null;
+  /** Drawn over the image, beneath the region outline. */
+  overlay?: React.ReactNode;
+}
+
+// Drags smaller than this share of the image are treated as clicks
+const MIN_REGION_SIZE = 0.03;
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+export default function RegionSelector({ src, region, onChange, mode, onPoint, marker, overlay }: RegionSelectorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<SoilRegion | null>(null);
+
+  const toImagePoint = useCallback((e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (mode === "point") {
+      onPoint?.(toImagePoint(e));
+      return;
+    }
+    if (mode !== "region") return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = toImagePoint(e);
+    setDragStart(start);
+    setDraft({ ...start, width: 0, height: 0 });
+  }, [mode, onPoint, toImagePoint]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = toImagePoint(e);
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  }, [dragStart, toImagePoint]);
+
+  const handlePointerUp = useCallback(() => {
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      onChange(draft);
+    }
+    setDragStart(null);
+    setDraft(null);
+  }, [draft, onChange]);
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-lg select-none touch-none ${mode !== "view" ? "cursor-crosshair" : ""}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img src={src} alt="Soil sample - full size" className="w-full h-auto rounded-lg" draggable={false} />
+      {overlay}
+      {shown && (
+        <div
+          className="absolute border-2 border-primary rounded-sm pointer-events-none"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+            // Dim everything outside the region
+            boxShadow: "0 0 0 9999px rgb(0 0 0 / 0.45)",
+          }}
+        />
+      )}
+      {marker && (
+        <div
+          className="absolute h-6 w-6 -ml-3 -mt-3 rounded-full border-2 border-white ring-2 ring-primary pointer-events-none"
+          style={{ left: `${marker.x * 100}%`, top: `${marker.y * 100}%` }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useCallback, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Lightbulb, Plus, Trash2 } from "lucide-react";
+import { cropSeasons } from "@/lib/crops/calendar";
+import { getCropProfile } from "@/lib/crops/knowledge";
+import { fieldOnSlots, newField, placeCrop, type CropPlans, type PlannedField } from "@/lib/crops/plans";
+import {
+  ROTATION_YEARS,
+  checkRotation,
+  fieldOccupancy,
+  rotationSlots,
+  suggestNextCrop,
+  type RotationIssue,
+} from "@/lib/crops/rotation";
+import type { LocationData } from "@/lib/soil/types";
+
+interface RotationPlannerProps {
+  cropPlans: CropPlans;
+  onPlansChange: React.Dispatch<React.SetStateAction<CropPlans>>;
+  location: LocationData | null;
+}
+
+// Select value for a season left fallow
+const FALLOW = "fallow";
+
+function issueCellClassName(issues: RotationIssue[]) {
+  if (issues.some((issue) => issue.severity === "warning")) return "bg-destructive/10";
+  if (issues.length > 0) return "bg-warning/15";
+  return "";
+}
+
+/** Lays saved crops out over two or three years of local seasons per field and checks the rotation. */
+export default function RotationPlanner({ cropPlans: { savedCrops, years, fields }, onPlansChange, location }: RotationPlannerProps) {
+  const setYears = useCallback((next: number) => {
+    onPlansChange((prev) => ({ ...prev, years: next }));
+  }, [onPlansChange]);
+
+  const setFields = useCallback((update: (prev: PlannedField[]) => PlannedField[]) => {
+    onPlansChange((prev) => ({ ...prev, fields: update(prev.fields) }));
+  }, [onPlansChange]);
+
+  const slots = useMemo(() => rotationSlots(location, years), [location, years]);
+  const slotsPerYear = slots.length / years;
+
+  const plans = useMemo(() => fields.map((field) => fieldOnSlots(field, slots)), [fields, slots]);
+
+  const preferences = useMemo(() => ({
+    saved: savedCrops.map((crop) => crop.name),
+    suitability: Object.fromEntries(savedCrops.map((crop) => [crop.name, crop.suitability])),
+  }), [savedCrops]);
+
+  const reviews = useMemo(() => plans.map((plan) => ({
+    occupancy: fieldOccupancy(plan, slotsPerYear),
+    issues: checkRotation(plan, slotsPerYear),
+    suggestion: suggestNextCrop(plan, slots, location, preferences),
+  })), [plans, slots, slotsPerYear, location, preferences]);
+
+  const setCrop = useCallback((fieldId: string, slot: number, crop: string | null) => {
+    setFields((prev) => prev.map((field) => (field.id === fieldId ? placeCrop(field, slots[slot], crop) : field)));
+  }, [setFields, slots]);
+
+  const renameField = useCallback((fieldId: string, name: string) => {
+    setFields((prev) => prev.map((field) => (field.id === fieldId ? { ...field, name } : field)));
+  }, [setFields]);
+
+  const addField = useCallback(() => {
+    setFields((prev) => [...prev, newField(prev.length + 1)]);
+  }, [setFields]);
+
+  const removeField = useCallback((fieldId: string) => {
+    setFields((prev) => prev.filter((field) => field.id !== fieldId));
+  }, [setFields]);
+
+  return (
+    <Card className="bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div>
+            <CardTitle className="text-lg font-heading">Rotation Planner</CardTitle>
+            <CardDescription>Place your saved crops on each field&apos;s seasons to check the rotation.</CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={String(years)}
+            onValueChange={(value) => value && setYears(Number(value))}
+          >
+            {ROTATION_YEARS.map((option) => (
+              <ToggleGroupItem key={option} value={String(option)}>
+                {option} years
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-40">Field</TableHead>
+                {slots.map((slot, i) => (
+                  <TableHead key={i} className={`min-w-36 ${i % slotsPerYear === 0 ? "border-l" : ""}`}>
+                    {slot.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map((plan, row) => {
+                const { occupancy, issues } = reviews[row];
+                return (
+                  <TableRow key={plan.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={plan.name}
+                          onChange={(e) => renameField(plan.id, e.target.value)}
+                          className="h-8"
+                          aria-label="Field name"
+                        />
+                        {plans.length > 1 && (
+                          <Button variant="ghost" size="sm" onClick={() => removeField(plan.id)} aria-label={`Remove ${plan.name}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                    {slots.map((slot, i) => {
+                      const entry = occupancy[i];
+                      const cellIssues = issues.filter((issue) => issue.slot === i);
+                      const cellClassName = `${i % slotsPerYear === 0 ? "border-l" : ""} ${issueCellClassName(cellIssues)}`;
+                      if (entry && !entry.sown) {
+                        return (
+                          <TableCell key={i} className={`${cellClassName} text-xs text-muted-foreground`}>
+                            {entry.crop.name} (growing)
+                          </TableCell>
+                        );
+                      }
+                      const options = savedCrops
+                        .map((crop) => crop.name)
+                        .filter((name) => {
+                          const profile = getCropProfile(name);
+                          return profile && cropSeasons(profile, location).includes(slot.season);
+                        });
+                      const current = plan.crops[i];
+                      if (current && !options.includes(current)) options.push(current);
+                      return (
+                        <TableCell key={i} className={cellClassName} title={cellIssues.map((issue) => issue.message).join("\n")}>
+                          <Select value={current ?? FALLOW} onValueChange={(value) => setCrop(plan.id, i, value === FALLOW ? null : value)}>
+                            <SelectTrigger size="sm" className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={FALLOW}>Fallow</SelectItem>
+                              {options.map((name) => (
+                                <SelectItem key={name} value={name}>{name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={addField}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Field
+        </Button>
+
+        {plans.map((plan, row) => {
+          const { issues, suggestion } = reviews[row];
+          if (issues.length === 0 && !suggestion) return null;
+          return (
+            <Alert key={plan.id} variant={issues.some((issue) => issue.severity === "warning") ? "destructive" : "default"}>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{plan.name}</AlertTitle>
+              <AlertDescription className="space-y-2">
+                {issues.length > 0 && (
+                  <ul className="list-disc pl-4 space-y-1">
+                    {issues.map((issue, i) => (
+                      <li key={i}>
+                        <span className="font-medium">{slots[issue.slot].label}:</span> {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {suggestion && (
+                  <div className="flex items-start gap-2 text-foreground">
+                    <Lightbulb className="h-4 w-4 mt-0.5 shrink-0 text-success" />
+                    <div className="space-y-1">
+                      <p>
+                        {suggestion.replaces
+                          ? `Try ${suggestion.crop} instead of ${suggestion.replaces} in ${slots[suggestion.slot].label}. `
+                          : `Next: ${suggestion.crop} in ${slots[suggestion.slot].label}. `}
+                        {suggestion.reason}
+                      </p>
+                      <Button variant="outline" size="sm" onClick={() => setCrop(plan.id, suggestion.slot, suggestion.crop)}>
+                        Apply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </AlertDescription>
+            </Alert>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
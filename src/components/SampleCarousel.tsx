@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { X, ZoomIn } from "lucide-react";
+import type { QualityReport } from "@/lib/soil/quality";
+import type { ColorCalibration, ImageMetadata, SoilRegion } from "@/lib/soil/types";
+
+/** One photo of a sample, with the region and calibration chosen for it. */
+export interface SampleImage {
+  id: string;
+  file: File;
+  previewUrl: string;
+  metadata: ImageMetadata;
+  region: SoilRegion | null;
+  calibration: ColorCalibration | null;
+  /** Null while the check for the current region and calibration is running. */
+  quality: QualityReport | null;
+}
+
+interface SampleCarouselProps {
+  images: SampleImage[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onZoom: (id: string) => void;
+}
+
+const QUALITY_LABELS = { pass: "Good", warn: "Marginal", block: "Unusable" } as const;
+
+export default function SampleCarousel({ images, activeId, onSelect, onRemove, onZoom }: SampleCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const activeIndex = Math.max(0, images.findIndex((image) => image.id === activeId));
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => {
+      const image = images[api.selectedScrollSnap()];
+      if (image) onSelect(image.id);
+    };
+    api.on("select", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+    };
+  }, [api, images, onSelect]);
+
+  // Follow selections made outside the carousel, e.g. a newly added image
+  useEffect(() => {
+    if (api && api.selectedScrollSnap() !== activeIndex) api.scrollTo(activeIndex);
+  }, [api, activeIndex, images.length]);
+
+  return (
+    <div className="space-y-2">
+      <Carousel setApi={setApi} className="mx-auto max-w-xs">
+        <CarouselContent>
+          {images.map((image, i) => (
+            <CarouselItem key={image.id}>
+              <div className="relative">
+                <img
+                  src={image.previewUrl}
+                  alt={`Soil sample image ${i + 1}`}
+                  className="w-full max-h-48 rounded-lg object-cover"
+                />
+                <div className="absolute top-2 right-2 flex gap-1">
+                  <Button size="sm" variant="outline" onClick={() => onZoom(image.id)}>
+                    <ZoomIn className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onRemove(image.id)}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove image</span>
+                  </Button>
+                </div>
+                {image.quality && (
+                  <Badge
+                    variant={image.quality.status === "block" ? "destructive" : "secondary"}
+                    className="absolute bottom-2 left-2"
+                  >
+                    {QUALITY_LABELS[image.quality.status]}
+                  </Badge>
+                )}
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious />
+            <CarouselNext />
+          </>
+        )}
+      </Carousel>
+      {images.length > 1 && (
+        <div className="text-xs text-muted-foreground">
+          Image {activeIndex + 1} of {images.length}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -8,9 +8,24 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import CameraDialog from "@/components/CameraDialog";
+import CropComparisonDialog from "@/components/CropComparisonDialog";
+import CropFactorTable from "@/components/CropFactorTable";
+import ExplainResultsDialog from "@/components/ExplainResultsDialog";
+import HeatmapOverlay, { type HeatmapLayer } from "@/components/HeatmapOverlay";
+import ImageQualityPanel from "@/components/ImageQualityPanel";
+import LabReportImport from "@/components/LabReportImport";
+import LabValuesForm from "@/components/LabValuesForm";
+import ProvenanceDetails from "@/components/ProvenanceDetails";
+import RegionSelector, { type SelectionMode } from "@/components/RegionSelector";
+import RotationPlanner from "@/components/RotationPlanner";
+import SampleCarousel, { type SampleImage } from "@/components/SampleCarousel";
+import TextureTriangle from "@/components/TextureTriangle";
 import { toast } from "sonner";
 import { 
   Images, 
@@ -22,44 +37,68 @@ import {
   Sprout,
   CircleDot,
   FileInput,
-  Crop
+  Crop,
+  Layers
 } from "lucide-react";
-
-interface WeatherData {
-  temperature: number;
-  humidity: number;
-  precipitation: number;
-  description: string;
-}
-
-interface SoilResult {
-  type: string;
-  confidence: number;
-  description: string;
-  color: string;
-}
-
-interface CropSuggestion {
-  name: string;
-  suitability: number;
-  season: string;
-  reason: string;
-  details: string;
-  saved: boolean;
-}
-
-interface LocationData {
-  lat: number;
-  lng: number;
-  city?: string;
-  state?: string;
-}
+import { formatSowingWindow } from "@/lib/crops/calendar";
+import { MAX_COMPARED_CROPS } from "@/lib/crops/compare";
+import { emptyCropPlans, hasPlannedCrops, loadCropPlans, storeCropPlans, type CropPlans } from "@/lib/crops/plans";
+import { findRecommendationConflict, recommendCrops } from "@/lib/crops/suggest";
+import { MAX_SAMPLE_IMAGES, aggregateSoilResults, type NamedSoilResult } from "@/lib/soil/aggregate";
+import { MAX_UPLOAD_BYTES, SoilAnalysisError, requestSoilAnalysis } from "@/lib/soil/api";
+import { REFERENCE_CARDS, computeCalibration, getReferenceCard } from "@/lib/soil/calibration";
+import { CLASSIFIER_VERSION, classScoreLabel, classifyDominantColor } from "@/lib/soil/classifier";
+import {
+  MOISTURE_LABELS,
+  ORGANIC_MATTER_LABELS,
+  certaintyLabel,
+  formatOrganicMatterRange,
+} from "@/lib/soil/condition";
+import { readImageMetadata } from "@/lib/soil/exif";
+import { MIN_LAYER_MEAN, type ClassHeatmap } from "@/lib/soil/heatmap";
+import { ACCEPTED_IMAGE_TYPES, MAX_SOURCE_IMAGE_BYTES, detectImageFormat } from "@/lib/soil/image";
+import { LAB_PARAMETERS, hasLabValues, labSoilResult, mergeLabValues } from "@/lib/soil/lab";
+import { ANALYSIS_STAGES, getAnalysisStage, isAbortError, yieldToBrowser, type AnalysisStage } from "@/lib/soil/progress";
+import { KNOWLEDGE_BASE_VERSION, combineProvenance, hashInputs } from "@/lib/soil/provenance";
+import {
+  TAXONOMY_SYSTEMS,
+  defaultTaxonomySystem,
+  getTaxonomySystem,
+  mapToTaxonomy,
+  type TaxonomySystem,
+} from "@/lib/soil/taxonomy";
+import { runImageTask } from "@/lib/soil/worker";
+import type {
+  ColorCalibration,
+  CropSuggestion,
+  LabValues,
+  LocationData,
+  SoilRegion,
+  SoilResult,
+  WeatherData,
+} from "@/lib/soil/types";
 
 export default function SoilAnalyzer() {
   // State management
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string>("");
+  const [images, setImages] = useState<SampleImage[]>([]);
+  const [activeImageId, setActiveImageId] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [referenceCardId, setReferenceCardId] = useState(REFERENCE_CARDS[0].id);
+  const [preparingCount, setPreparingCount] = useState(0);
+  // Bumped when the sample is cleared so images still being prepared are dropped
+  const fileGenerationRef = useRef(0);
+  const imagesRef = useRef(images);
+
+  // The zoom dialog, region and calibration controls work on the image shown in the carousel
+  const activeImage = images.find((image) => image.id === activeImageId) ?? images[0] ?? null;
+  const selectedFile = activeImage?.file ?? null;
+  const previewUrl = activeImage?.previewUrl ?? "";
+  const soilRegion = activeImage?.region ?? null;
+  const calibration = activeImage?.calibration ?? null;
+  const qualityReport = activeImage?.quality ?? null;
+  const imageMetadata = activeImage?.metadata ?? null;
+  const photoLocation = images.find((image) => image.metadata.location)?.metadata.location;
+  const preparingImage = preparingCount > 0;
   
   // Location & Weather
   const [location, setLocation] = useState<LocationData | null>(null);
@@ -71,91 +110,204 @@ export default function SoilAnalyzer() {
   
   // Analysis & Results
   const [analyzing, setAnalyzing] = useState(false);
-  const [soilResult, setSoilResult] = useState<SoilResult | null>(null);
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage>("decoding");
+  const [analysisImage, setAnalysisImage] = useState({ index: 0, count: 1 });
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const [imageResult, setImageResult] = useState<SoilResult | null>(null);
+  // Null until the user picks a system; the default then follows the location
+  const [taxonomyChoice, setTaxonomyChoice] = useState<TaxonomySystem | null>(null);
+  const [labValues, setLabValues] = useState<LabValues | null>(null);
   const [cropSuggestions, setCropSuggestions] = useState<CropSuggestion[]>([]);
   const [suggestingCrops, setSuggestingCrops] = useState(false);
+  // Saved crops and field plans outlive the suggestions and are kept in the browser
+  const [cropPlans, setCropPlans] = useState<CropPlans>(emptyCropPlans);
+  const [cropPlansLoaded, setCropPlansLoaded] = useState(false);
   
   // UI States
   const [showImageZoom, setShowImageZoom] = useState(false);
-  const [showMapPicker, setShowMapPicker] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [zoomMode, setZoomMode] = useState<SelectionMode>("view");
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmap, setHeatmap] = useState<ClassHeatmap | null>(null);
+  const [heatmapLayer, setHeatmapLayer] = useState<HeatmapLayer>("cluster");
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [exportEmail, setExportEmail] = useState("");
   const [selectedCropsForComparison, setSelectedCropsForComparison] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
   const [expandedCrop, setExpandedCrop] = useState<string | null>(null);
 
   // File handling
-  const handleFileSelect = useCallback((file: File) => {
-    if (!file.type.startsWith('image/')) {
-      toast.error("Please select a valid image file (JPEG or PNG)");
-      return;
+  // A result only covers the images, regions and calibrations it was computed from
+  const invalidateImageResult = useCallback(() => {
+    setImageResult(null);
+    setCropSuggestions([]);
+  }, []);
+
+  const updateImage = useCallback((id: string, patch: Partial<Pick<SampleImage, "region" | "calibration">>) => {
+    // A new region or calibration invalidates the quality check
+    setImages((prev) => prev.map((image) => (image.id === id ? { ...image, ...patch, quality: null } : image)));
+  }, []);
+
+  const setSoilRegion = useCallback((region: SoilRegion | null) => {
+    if (!activeImage) return;
+    updateImage(activeImage.id, { region });
+    invalidateImageResult();
+  }, [activeImage, updateImage, invalidateImageResult]);
+
+  const setCalibration = useCallback((calibration: ColorCalibration | null) => {
+    if (!activeImage) return;
+    updateImage(activeImage.id, { calibration });
+    invalidateImageResult();
+  }, [activeImage, updateImage, invalidateImageResult]);
+
+  const addImage = useCallback(async (file: File, generation: number) => {
+    try {
+      // EXIF is read from the original; re-encoding drops it. The worker hands
+      // back a copy, so the original File is kept when nothing was re-encoded
+      const [prepared, exif] = await Promise.all([
+        runImageTask({ type: "prepare", file }),
+        readImageMetadata(file),
+      ]);
+      if (generation !== fileGenerationRef.current) return;
+
+      const upload = !prepared.reencoded
+        ? file
+        : new File([prepared.file], file.name.replace(/\.[^.]+$/, "") + ".jpg", { type: prepared.file.type });
+      if (upload.size > MAX_UPLOAD_BYTES) {
+        toast.error(`${file.name} is still larger than 10MB after compression`);
+        return;
+      }
+
+      const image: SampleImage = {
+        id: crypto.randomUUID(),
+        file: upload,
+        previewUrl: URL.createObjectURL(upload),
+        metadata: { ...exif, width: prepared.width, height: prepared.height, resized: prepared.resized },
+        region: null,
+        calibration: null,
+        quality: null,
+      };
+      setImages((prev) => [...prev, image]);
+      setActiveImageId(image.id);
+      invalidateImageResult();
+      if (exif.location) toast.info("This photo has GPS coordinates. You can use them as the sample location.");
+      toast.success(!prepared.reencoded
+        ? "Image uploaded successfully"
+        : `Image converted and compressed to ${Math.round(upload.size / 1024)} KB`);
+    } catch (error) {
+      if (generation === fileGenerationRef.current) {
+        toast.error(`${file.name} could not be read. Please try another photo.`);
+      }
+    } finally {
+      if (generation === fileGenerationRef.current) setPreparingCount((count) => count - 1);
     }
-    
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error("Image size must be less than 10MB");
-      return;
+  },[invalidateImageResult]);
+
+  const handleFilesSelect = useCallback((files: File[]) => {
+    const valid = files.filter((file) => {
+      if (!detectImageFormat(file)) {
+        toast.error(`${file.name} is not a JPEG, PNG, WebP, HEIC or TIFF image`);
+        return false;
+      }
+      if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+        toast.error(`Image size must be less than ${MAX_SOURCE_IMAGE_BYTES / (1024 * 1024)}MB`);
+        return false;
+      }
+      return true;
+    });
+
+    const room = MAX_SAMPLE_IMAGES - images.length - preparingCount;
+    if (valid.length > room) {
+      toast.warning(`A sample can have up to ${MAX_SAMPLE_IMAGES} images`);
     }
+    const accepted = valid.slice(0, Math.max(0, room));
+    if (accepted.length === 0) return;
 
-    setSelectedFile(file);
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
-    toast.success("Image uploaded successfully");
-  }, []);
+    // A running analysis would no longer cover every image in the sample
+    analysisControllerRef.current?.abort();
+    setPreparingCount((count) => count + accepted.length);
+    for (const file of accepted) addImage(file, fileGenerationRef.current);
+  }, [images.length, preparingCount, addImage]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file) handleFileSelect(file);
-  }, [handleFileSelect]);
+    handleFilesSelect(Array.from(e.dataTransfer.files));
+  }, [handleFilesSelect]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFileSelect(file);
-  }, [handleFileSelect]);
+    handleFilesSelect(Array.from(e.target.files ?? []));
+    // Allow adding the same file again after removing it
+    e.target.value = "";
+  }, [handleFilesSelect]);
+
+  const removeImage = useCallback((id: string) => {
+    analysisControllerRef.current?.abort();
+    setImages((prev) => {
+      const image = prev.find((item) => item.id === id);
+      if (image) URL.revokeObjectURL(image.previewUrl);
+      return prev.filter((item) => item.id !== id);
+    });
+    invalidateImageResult();
+  }, [invalidateImageResult]);
 
   const clearImage = useCallback(() => {
-    setSelectedFile(null);
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
-      setPreviewUrl("");
-    }
-    setSoilResult(null);
-    setCropSuggestions([]);
-    toast.info("Image cleared");
-  }, [previewUrl]);
+    analysisControllerRef.current?.abort();
+    fileGenerationRef.current++;
+    setPreparingCount(0);
+    for (const image of images) URL.revokeObjectURL(image.previewUrl);
+    setImages([]);
+    setActiveImageId(null);
+    invalidateImageResult();
+    toast.info("Images cleared");
+  }, [images, invalidateImageResult]);
+
+  const zoomImage = useCallback((id: string) => {
+    setActiveImageId(id);
+    setZoomMode("view");
+    setShowImageZoom(true);
+  }, []);
+
+  // Colour calibration
+  const calibrateColor = useCallback(async (point?: { x: number; y: number }) => {
+    if (!activeImage) return;
+    const card = getReferenceCard(referenceCardId)!;
 
-  // Camera capture
-  const captureFromCamera = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: "environment" } 
-      });
-      
-      const video = document.createElement('video');
-      video.srcObject = stream;
-      video.play();
-      
-      video.addEventListener('loadedmetadata', () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(video, 0, 0);
-        
-        canvas.toBlob((blob) => {
-          if (blob) {
-            const file = new File([blob], 'camera-capture.jpg', { type: 'image/jpeg' });
-            handleFileSelect(file);
-          }
-        }, 'image/jpeg', 0.9);
-        
-        stream.getTracks().forEach(track => track.stop());
-      });
+      const patch = await runImageTask({ type: "locateReference", file: activeImage.file, point });
+      if (!patch) {
+        toast.error("No reference card found. Tap the card in the image instead.");
+        return;
+      }
+
+      const next = computeCalibration(card, patch.sample, point ? "tap" : "auto", patch.point);
+      if (!next) {
+        toast.error(`That patch doesn't look like a ${card.label}. Tap the centre of the card.`);
+        return;
+      }
+
+      setCalibration(next);
+      setZoomMode("view");
+      toast.success(activeImage.region
+        ? `Colours calibrated against the ${card.label}`
+        : `Colours calibrated. Mark the soil region so the card itself is not analyzed.`);
     } catch (error) {
+      toast.error("Failed to read the image. Please try another photo.");
+    }
+  }, [activeImage, referenceCardId, setCalibration]);
+
+  // Camera capture
+  const openCamera = useCallback(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
       toast.error("Camera access denied or not available");
+      return;
     }
-  }, [handleFileSelect]);
+    setShowCamera(true);
+  }, []);
+
+  const handleCameraCapture = useCallback((file: File) => {
+    handleFilesSelect([file]);
+  }, [handleFilesSelect]);
 
   // Location handling
   const detectLocation = useCallback(async () => {
@@ -169,7 +321,7 @@ export default function SoilAnalyzer() {
     navigator.geolocation.getCurrentPosition(
       (position) => {
         const { latitude, longitude } = position.coords;
-        setLocation({ lat: latitude, lng: longitude });
+        setLocation({ lat: latitude, lng: longitude, source: "device" });
         setLocationLoading(false);
         toast.success("Location detected successfully");
       },
@@ -181,21 +333,26 @@ export default function SoilAnalyzer() {
     );
   }, []);
 
+  // The photo's GPS tags say where the sample was taken, not where the user is now
+  const applyPhotoLocation = useCallback(() => {
+    if (!photoLocation) return;
+    setLocation({ ...photoLocation, source: "photo" });
+    setShowManualLocation(false);
+    toast.success("Location set from the photo");
+  }, [photoLocation]);
+
   const handleManualLocationSubmit = useCallback(() => {
     if (!manualLocation.city.trim()) {
       toast.error("Please enter a city name");
       return;
     }
-    
-    // Simulate geocoding
-    const mockCoords = {
-      lat: 40.7128 + (Math.random() - 0.5) * 10,
-      lng: -74.0060 + (Math.random() - 0.5) * 10,
-      city: manualLocation.city,
-      state: manualLocation.state
-    };
-    
-    setLocation(mockCoords);
+
+    // Names are not geocoded; the state or country picks the calendar and taxonomy
+    setLocation({
+      city: manualLocation.city.trim(),
+      state: manualLocation.state.trim() || undefined,
+      source: "manual",
+    });
     setShowManualLocation(false);
     toast.success(`Location set to ${manualLocation.city}`);
   }, [manualLocation]);
@@ -226,40 +383,154 @@ export default function SoilAnalyzer() {
 
   // Soil analysis
   const analyzeSoil = useCallback(async () => {
-    if (!selectedFile) {
+    if (images.length === 0) {
       toast.error("Please upload an image first");
       return;
     }
 
+    const controller = new AbortController();
+    const { signal } = controller;
+    analysisControllerRef.current = controller;
+    setAnalysisStage("decoding");
+    setAnalysisImage({ index: 0, count: images.length });
     setAnalyzing(true);
-    toast.info("Analyzing soil composition...");
-    
-    // Simulate analysis
-    setTimeout(() => {
-      const soilTypes = [
-        { type: "Clay Loam", color: "#8B4513", description: "Rich, fertile soil ideal for most crops" },
-        { type: "Sandy Loam", color: "#DEB887", description: "Well-draining soil good for root vegetables" },
-        { type: "Silt Loam", color: "#A0522D", description: "Nutrient-rich soil with good water retention" },
-        { type: "Clay", color: "#654321", description: "Heavy soil that retains water well" }
-      ];
-      
-      const selectedSoil = soilTypes[Math.floor(Math.random() * soilTypes.length)];
-      const confidence = 75 + Math.random() * 20;
-      
-      setSoilResult({
-        ...selectedSoil,
-        confidence: Math.round(confidence)
-      });
-      
+
+    const enterStage = async (stage: AnalysisStage) => {
+      setAnalysisStage(stage);
+      await yieldToBrowser(signal);
+    };
+
+    try {
+      const analyzed: NamedSoilResult[] = [];
+      const skipped: string[] = [];
+
+      // Each image is classified on its own, then the results are combined
+      for (const [index, image] of images.entries()) {
+        setAnalysisImage({ index, count: images.length });
+        const { file, region, calibration } = image;
+
+        // Decoding, the quality gate and colour extraction run in the image worker
+        const { quality, dominant } = await runImageTask(
+          { type: "analyze", file, region, calibration },
+          { signal, onStage: setAnalysisStage }
+        );
+        setImages((prev) => prev.map((item) =>
+          item.id === image.id && item.region === region && item.calibration === calibration
+            ? { ...item, quality }
+            : item
+        ));
+
+        if (quality.status === "block") {
+          const blocking = quality.checks.find((check) => check.status === "block")!;
+          skipped.push(`${file.name}: ${blocking.guidance}`);
+          continue;
+        }
+
+        await enterStage("classification");
+        let result: SoilResult | null;
+        try {
+          result = await requestSoilAnalysis(file, { region, calibration, signal });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // The server rejected this image; the others can still make up the sample
+          if (error instanceof SoilAnalysisError) {
+            skipped.push(`${file.name}: ${error.message}.`);
+            continue;
+          }
+          // Server unreachable: fall back to the on-device classifier on the colour extracted above
+          const params = { region: region ?? undefined, calibration: calibration ?? undefined };
+          result = dominant && {
+            ...classifyDominantColor(dominant),
+            ...params,
+            provenance: {
+              provider: "on-device",
+              version: CLASSIFIER_VERSION,
+              knowledgeBase: KNOWLEDGE_BASE_VERSION,
+              inputHash: await hashInputs(new Uint8Array(await file.arrayBuffer()), params),
+            },
+          };
+        }
+
+        if (!result) {
+          skipped.push(`${file.name}: No soil could be found. Try a closer photo of bare soil.`);
+          continue;
+        }
+        if (quality.status === "warn") {
+          toast.warning(`Image quality of ${file.name} is marginal, so results may be less reliable`);
+        }
+        analyzed.push({ name: file.name, result: { ...result, image: image.metadata } });
+      }
+
+      await enterStage("postProcessing");
+      if (analyzed.length === 0) {
+        toast.error(images.length === 1
+          ? skipped[0].slice(skipped[0].indexOf(": ") + 2)
+          : "None of the images could be analyzed. Try closer photos of bare soil.");
+        return;
+      }
+      if (skipped.length > 0) {
+        toast.warning(`Skipped ${skipped.length} of ${images.length} images. ${skipped.join(" ")}`);
+      }
+
+      const result = aggregateSoilResults(analyzed);
+      const provenances = analyzed.map((item) => item.result.provenance);
+      if (analyzed.length > 1 && provenances.every((p) => p !== undefined)) {
+        result.provenance = await combineProvenance(provenances);
+      }
+      setImageResult(result);
+      toast.success(result.agreement === undefined
+        ? `Soil identified as ${result.type} (${classScoreLabel(result.confidence / 100).toLowerCase()})`
+        : `Soil identified as ${result.type} (${classScoreLabel(result.confidence / 100).toLowerCase()}, ${result.agreement}% image agreement)`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info("Analysis cancelled");
+      } else {
+        toast.error("Failed to read the image. Please try another photo.");
+      }
+    } finally {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
       setAnalyzing(false);
-      toast.success(`Soil identified as ${selectedSoil.type} (${Math.round(confidence)}% confidence)`);
-    }, 3000);
-  }, [selectedFile]);
+    }
+  }, [images]);
+
+  // Every image passes through all stages, so progress is spread evenly across images
+  const analysisProgress = Math.round(
+    (analysisImage.index * 100 + getAnalysisStage(analysisStage).start) / analysisImage.count
+  );
+
+  const cancelAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => cancelAnalysis, [cancelAnalysis]);
+
+  // Lab values take precedence over what the image suggests; a measured
+  // texture gives a result on its own before any photo is analyzed
+  const soilResult = useMemo(() => {
+    if (!hasLabValues(labValues)) return imageResult;
+    return imageResult ? mergeLabValues(imageResult, labValues) : labSoilResult(labValues);
+  }, [imageResult, labValues]);
+
+  const taxonomySystem = taxonomyChoice ?? defaultTaxonomySystem(location);
+  const taxonomy = useMemo(
+    () => (soilResult ? mapToTaxonomy(soilResult, taxonomySystem, location) : null),
+    [soilResult, taxonomySystem, location]
+  );
+
+  const applyLabValues = useCallback((values: LabValues | null) => {
+    setLabValues(values);
+    if (cropSuggestions.length > 0) {
+      setCropSuggestions([]);
+      toast.info("Lab values changed. Suggest crops again to use them.");
+    } else {
+      toast.success(values ? "Lab values applied" : "Lab values cleared");
+    }
+  }, [cropSuggestions.length]);
 
   // Crop suggestions
   const suggestCrops = useCallback(async () => {
     if (!soilResult) {
-      toast.error("Please analyze soil first");
+      toast.error("Please analyze soil or enter a lab texture first");
       return;
     }
     
@@ -269,78 +540,74 @@ export default function SoilAnalyzer() {
     }
 
     setSuggestingCrops(true);
-    toast.info("Generating crop suggestions...");
-    
-    // Simulate crop suggestion API
-    setTimeout(() => {
-      const crops = [
-        {
-          name: "Tomatoes",
-          suitability: 92,
-          season: "Summer",
-          reason: "Excellent match for clay loam soil",
-          details: "Clay loam provides ideal drainage and nutrient retention for tomatoes. Current weather conditions are perfect for planting.",
-          saved: false
-        },
-        {
-          name: "Carrots",
-          suitability: 88,
-          season: "Spring/Fall",
-          reason: "Good root development in this soil type",
-          details: "The soil structure allows for proper root expansion. Temperature and humidity levels support healthy growth.",
-          saved: false
-        },
-        {
-          name: "Lettuce",
-          suitability: 85,
-          season: "Spring/Fall",
-          reason: "Thrives in well-draining soil",
-          details: "Quick-growing crop suitable for current soil and weather conditions. Low maintenance requirements.",
-          saved: false
-        },
-        {
-          name: "Peppers",
-          suitability: 90,
-          season: "Summer",
-          reason: "Heat-loving crop suited to current conditions",
-          details: "Warm weather and soil type create ideal growing conditions. Expect high yield potential.",
-          saved: false
-        }
-      ];
-      
+    try {
+      const crops = await recommendCrops(soilResult, { weather, location });
       setCropSuggestions(crops);
-      setSuggestingCrops(false);
       toast.success(`Found ${crops.length} crop suggestions`);
-    }, 2000);
-  }, [soilResult, weather]);
+    } catch {
+      toast.error("Could not score crops for this sample. Please try again.");
+    } finally {
+      setSuggestingCrops(false);
+    }
+  }, [soilResult, weather, location]);
+
+  const recommendationConflict = useMemo(
+    () => (soilResult ? findRecommendationConflict(soilResult, { weather, location }) : null),
+    [soilResult, weather, location]
+  );
+
+  // Crop plans are read after mount so the server render matches the first client render
+  useEffect(() => {
+    setCropPlans(loadCropPlans());
+    setCropPlansLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (cropPlansLoaded) storeCropPlans(cropPlans);
+  }, [cropPlans, cropPlansLoaded]);
+
+  const savedCropNames = useMemo(
+    () => new Set(cropPlans.savedCrops.map((crop) => crop.name)),
+    [cropPlans.savedCrops]
+  );
 
   // Crop actions
-  const toggleCropSaved = useCallback((cropName: string) => {
-    setCropSuggestions(prev => 
-      prev.map(crop => 
-        crop.name === cropName 
-          ? { ...crop, saved: !crop.saved }
-          : crop
-      )
-    );
-    
-    const crop = cropSuggestions.find(c => c.name === cropName);
-    if (crop) {
-      toast.success(`${crop.name} ${crop.saved ? 'removed from' : 'added to'} your plans`);
-    }
-  }, [cropSuggestions]);
+  const toggleCropSaved = useCallback((crop: CropSuggestion) => {
+    const saved = savedCropNames.has(crop.name);
+    setCropPlans((prev) => ({
+      ...prev,
+      savedCrops: saved
+        ? prev.savedCrops.filter((other) => other.name !== crop.name)
+        : [...prev.savedCrops, crop],
+    }));
+    toast.success(`${crop.name} ${saved ? 'removed from' : 'added to'} your plans`);
+  }, [savedCropNames]);
 
   const toggleCropComparison = useCallback((cropName: string) => {
-    setSelectedCropsForComparison(prev => {
-      const isSelected = prev.includes(cropName);
-      const newSelection = isSelected 
-        ? prev.filter(name => name !== cropName)
-        : [...prev, cropName];
-      
-      toast.info(`${cropName} ${isSelected ? 'removed from' : 'added to'} comparison`);
-      return newSelection;
+    const isSelected = selectedCropsForComparison.includes(cropName);
+    if (!isSelected && selectedCropsForComparison.length >= MAX_COMPARED_CROPS) {
+      toast.error(`You can compare up to ${MAX_COMPARED_CROPS} crops at a time`);
+      return;
+    }
+    setSelectedCropsForComparison((prev) => (isSelected ? prev.filter((name) => name !== cropName) : [...prev, cropName]));
+    toast.info(`${cropName} ${isSelected ? 'removed from' : 'added to'} comparison`);
+  }, [selectedCropsForComparison]);
+
+  // Crops dropped by new suggestions leave the comparison, so they don't count towards the limit
+  useEffect(() => {
+    setSelectedCropsForComparison((prev) => {
+      const kept = prev.filter((name) => cropSuggestions.some((crop) => crop.name === name));
+      return kept.length === prev.length ? prev : kept;
     });
-  }, []);
+  }, [cropSuggestions]);
+
+  // In the order they were picked
+  const comparedCrops = useMemo(
+    () => selectedCropsForComparison
+      .map((name) => cropSuggestions.find((crop) => crop.name === name))
+      .filter((crop): crop is CropSuggestion => crop !== undefined),
+    [selectedCropsForComparison, cropSuggestions]
+  );
 
   // Reset function
   const resetAll = useCallback(() => {
@@ -349,7 +616,8 @@ export default function SoilAnalyzer() {
     setManualLocation({ city: "", state: "" });
     setShowManualLocation(false);
     setWeather(null);
-    setSoilResult(null);
+    setImageResult(null);
+    setLabValues(null);
     setCropSuggestions([]);
     setSelectedCropsForComparison([]);
     setExpandedCrop(null);
@@ -382,14 +650,69 @@ export default function SoilAnalyzer() {
     }, 2000);
   }, [exportEmail]);
 
+  // Image quality check for the image on show; the others are checked when shown or analyzed
+  useEffect(() => {
+    if (!activeImage || activeImage.quality) return;
+    const { id, file, region, calibration } = activeImage;
+    const controller = new AbortController();
+
+    runImageTask(
+      { type: "quality", file, region, calibration },
+      { signal: controller.signal }
+    )
+      .then((quality) => {
+        setImages((prev) => prev.map((image) =>
+          image.id === id && image.region === region && image.calibration === calibration
+            ? { ...image, quality }
+            : image
+        ));
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) toast.error("Failed to read the image. Please try another photo.");
+      });
+
+    return () => controller.abort();
+  }, [activeImage]);
+
+  // Heatmap for the zoomed image; its region decides which colour counts as dominant
+  useEffect(() => {
+    if (!showHeatmap || !showImageZoom || !selectedFile) return;
+    const controller = new AbortController();
+    setHeatmap(null);
+
+    runImageTask(
+      { type: "heatmap", file: selectedFile, region: soilRegion, calibration },
+      { signal: controller.signal }
+    )
+      .then(setHeatmap)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        toast.error("Could not compute the heatmap for this image");
+        setShowHeatmap(false);
+      });
+
+    return () => controller.abort();
+  }, [showHeatmap, showImageZoom, selectedFile, soilRegion, calibration]);
+
+  // Texture classes that show up in the analysed area, most widespread first
+  const heatmapLayers = useMemo(
+    () => (heatmap?.classes ?? [])
+      .map((type, i) => ({ type, mean: heatmap!.means[i] }))
+      .filter(({ type, mean }) => mean >= MIN_LAYER_MEAN || type === heatmapLayer)
+      .sort((a, b) => b.mean - a.mean),
+    [heatmap, heatmapLayer]
+  );
+
   // Cleanup effect
+  useEffect(() => {
+    imagesRef.current = images;
+  }, [images]);
+
   useEffect(() => {
     return () => {
-      if (previewUrl) {
-        URL.revokeObjectURL(previewUrl);
-      }
+      for (const image of imagesRef.current) URL.revokeObjectURL(image.previewUrl);
     };
-  }, [previewUrl]);
+  }, []);
 
   return (
     <TooltipProvider>
@@ -469,33 +792,76 @@ export default function SoilAnalyzer() {
               onDragEnter={() => setIsDragging(true)}
               onDragLeave={() => setIsDragging(false)}
             >
-              {previewUrl ? (
+              {images.length > 0 ? (
                 <div className="space-y-4">
-                  <div className="relative inline-block">
-                    <img 
-                      src={previewUrl} 
-                      alt="Soil sample"
-                      className="max-w-xs max-h-48 rounded-lg object-cover"
-                    />
+                  <SampleCarousel
+                    images={images}
+                    activeId={activeImage?.id ?? null}
+                    onSelect={setActiveImageId}
+                    onRemove={removeImage}
+                    onZoom={zoomImage}
+                  />
+                  {preparingImage && (
+                    <div className="text-sm text-muted-foreground">Preparing {preparingCount} more image{preparingCount > 1 ? "s" : ""}...</div>
+                  )}
+                  <div className="text-sm text-muted-foreground">
+                    {selectedFile?.name} ({Math.round((selectedFile?.size || 0) / 1024)} KB)
+                    {imageMetadata?.resized && (
+                      <> · resized from {imageMetadata.width}×{imageMetadata.height}</>
+                    )}
+                    {imageMetadata?.capturedAt && (
+                      <> · Taken {new Date(imageMetadata.capturedAt).toLocaleString()}</>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-center gap-2 flex-wrap">
+                    {soilRegion ? (
+                      <Badge variant="secondary">Soil region selected</Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">Whole image will be analyzed</span>
+                    )}
+                    {calibration && <Badge variant="secondary">Colour calibrated</Badge>}
                     <Button
+                      variant="ghost"
                       size="sm"
-                      variant="outline"
-                      className="absolute top-2 right-2"
-                      onClick={() => setShowImageZoom(true)}
+                      onClick={() => {
+                        setZoomMode("region");
+                        setShowImageZoom(true);
+                      }}
                     >
-                      <ZoomIn className="h-4 w-4" />
+                      <Crop className="h-4 w-4 mr-1" />
+                      {soilRegion ? "Edit Region" : "Mark Soil Region"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setZoomMode("point");
+                        setShowImageZoom(true);
+                      }}
+                    >
+                      <CircleDot className="h-4 w-4 mr-1" />
+                      {calibration ? "Recalibrate" : "Calibrate Colour"}
                     </Button>
                   </div>
-                  <div className="text-sm text-muted-foreground">
-                    {selectedFile?.name} ({Math.round((selectedFile?.size || 0) / 1024)} KB)
-                  </div>
+                  {qualityReport ? (
+                    <ImageQualityPanel report={qualityReport} />
+                  ) : (
+                    <div className="text-sm text-muted-foreground">Checking image quality...</div>
+                  )}
+                </div>
+              ) : preparingImage ? (
+                <div className="space-y-4">
+                  <CircleDot className="h-12 w-12 text-muted-foreground mx-auto animate-spin" />
+                  <p className="text-sm text-muted-foreground">Preparing image...</p>
                 </div>
               ) : (
                 <div className="space-y-4">
                   <Images className="h-12 w-12 text-muted-foreground mx-auto" />
                   <div>
-                    <p className="text-lg font-medium">Drop your soil image here</p>
-                    <p className="text-sm text-muted-foreground">or use the buttons below to select an image</p>
+                    <p className="text-lg font-medium">Drop your soil images here</p>
+                    <p className="text-sm text-muted-foreground">
+                      Several photos from different spots give a more representative sample
+                    </p>
                   </div>
                 </div>
               )}
@@ -506,33 +872,49 @@ export default function SoilAnalyzer() {
                 <Button variant="outline" className="cursor-pointer" asChild>
                   <span>
                     <FileInput className="h-4 w-4 mr-2" />
-                    Choose Image
+                    {images.length > 0 ? "Add Images" : "Choose Images"}
                   </span>
                 </Button>
               </Label>
               <input
                 id="file-input"
                 type="file"
-                accept="image/jpeg,image/png"
+                accept={ACCEPTED_IMAGE_TYPES}
+                multiple
                 className="hidden"
                 onChange={handleFileInputChange}
               />
               
-              <Button variant="outline" onClick={captureFromCamera}>
+              <Button variant="outline" onClick={openCamera}>
                 <Images className="h-4 w-4 mr-2" />
                 Use Camera
               </Button>
               
-              {previewUrl && (
+              <LabReportImport current={labValues} onAttach={applyLabValues} />
+
+              {images.length > 0 && (
                 <Button variant="outline" onClick={clearImage}>
                   <Undo className="h-4 w-4 mr-2" />
-                  Clear Image
+                  Clear Images
                 </Button>
               )}
             </div>
           </CardContent>
         </Card>
 
+        {/* Lab Test Values */}
+        <Card className="bg-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-heading">Lab Test Values</CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Optional. Enter values from a Soil Health Card or lab report; they override estimates from the photo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LabValuesForm key={JSON.stringify(labValues)} values={labValues} onApply={applyLabValues} />
+          </CardContent>
+        </Card>
+
         {/* Location & Weather Controls */}
         <Card className="bg-card">
           <CardHeader>
@@ -543,13 +925,30 @@ export default function SoilAnalyzer() {
               {/* Location */}
               <div className="space-y-3">
                 <Label className="text-sm font-medium">Location</Label>
+                {photoLocation && location?.source !== "photo" && (
+                  <Alert>
+                    <MapPinX className="h-4 w-4" />
+                    <AlertTitle>Photo location found</AlertTitle>
+                    <AlertDescription className="space-y-2">
+                      <p>
+                        The photo was taken at {photoLocation.lat.toFixed(4)}, {photoLocation.lng.toFixed(4)}.
+                      </p>
+                      <Button size="sm" variant="outline" onClick={applyPhotoLocation}>
+                        Use Photo Location
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 {location ? (
                   <div className="p-3 bg-muted rounded-lg">
                     <div className="flex items-center gap-2">
                       <MapPinX className="h-4 w-4 text-success" />
                       <span className="text-sm">
-                        {location.city ? `${location.city}, ${location.state}` : `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+                        {location.city
+                          ? [location.city, location.state].filter(Boolean).join(", ")
+                          : `${location.lat?.toFixed(4)}, ${location.lng?.toFixed(4)}`}
                       </span>
+                      {location.source === "photo" && <Badge variant="secondary">From photo</Badge>}
                     </div>
                   </div>
                 ) : (
@@ -603,36 +1002,6 @@ export default function SoilAnalyzer() {
                       <Button size="sm" onClick={handleManualLocationSubmit}>
                         Set Location
                       </Button>
-                      <Dialog open={showMapPicker} onOpenChange={setShowMapPicker}>
-                        <DialogTrigger asChild>
-                          <Button variant="outline" size="sm">
-                            Use Map
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent className="max-w-2xl">
-                          <DialogHeader>
-                            <DialogTitle>Select Location on Map</DialogTitle>
-                            <DialogDescription>Click on the map to select your location</DialogDescription>
-                          </DialogHeader>
-                          <div className="h-96 bg-muted rounded-lg flex items-center justify-center">
-                            <div className="text-center">
-                              <MapPinX className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
-                              <p className="text-muted-foreground">Interactive map would be displayed here</p>
-                              <p className="text-sm text-muted-foreground">Click to select coordinates</p>
-                            </div>
-                          </div>
-                          <div className="flex justify-end gap-2">
-                            <Button variant="outline" onClick={() => setShowMapPicker(false)}>Cancel</Button>
-                            <Button onClick={() => {
-                              setLocation({ lat: 40.7128, lng: -74.0060, city: "New York", state: "NY" });
-                              setShowMapPicker(false);
-                              toast.success("Location selected from map");
-                            }}>
-                              Confirm Location
-                            </Button>
-                          </div>
-                        </DialogContent>
-                      </Dialog>
                     </div>
                   </div>
                 )}
@@ -678,7 +1047,7 @@ export default function SoilAnalyzer() {
             <div className="flex gap-4 flex-wrap">
               <Button 
                 onClick={analyzeSoil}
-                disabled={!selectedFile || analyzing}
+                disabled={!selectedFile || analyzing || preparingImage}
                 className="flex-1 min-w-[140px]"
                 size="lg"
               >
@@ -708,7 +1077,7 @@ export default function SoilAnalyzer() {
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  {!soilResult ? "Analyze soil first" : !weather ? "Weather data required" : "Get crop recommendations"}
+                  {!soilResult ? "Analyze soil or enter a lab texture first" : !weather ? "Weather data required" : "Get crop recommendations"}
                 </TooltipContent>
               </Tooltip>
               
@@ -726,68 +1095,170 @@ export default function SoilAnalyzer() {
             <CardContent className="pt-6">
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Analyzing soil composition...</span>
-                  <span>65%</span>
+                  <span>{getAnalysisStage(analysisStage).label}...</span>
+                  <span>{analysisProgress}%</span>
+                </div>
+                <Progress value={analysisProgress} className="h-2" />
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">
+                    {analysisImage.count > 1 && `Image ${analysisImage.index + 1} of ${analysisImage.count} · `}
+                    Step {ANALYSIS_STAGES.findIndex((stage) => stage.id === analysisStage) + 1} of {ANALYSIS_STAGES.length}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={cancelAnalysis}>
+                    Cancel
+                  </Button>
                 </div>
-                <Progress value={65} className="h-2" />
               </div>
             </CardContent>
           </Card>
         )}
 
         {/* Soil Results */}
-        {soilResult && (
+        {soilResult && taxonomy && (
           <Card className="bg-card">
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap space-y-0">
               <CardTitle className="text-lg font-heading">Soil Analysis Results</CardTitle>
+              <Select value={taxonomySystem} onValueChange={(value) => setTaxonomyChoice(value as TaxonomySystem)}>
+                <SelectTrigger className="w-56" aria-label="Classification system">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAXONOMY_SYSTEMS.map((system) => (
+                    <SelectItem key={system.id} value={system.id}>
+                      {system.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <div className="flex items-start gap-4">
-                <div 
-                  className="w-12 h-12 rounded-lg border-2"
-                  style={{ backgroundColor: soilResult.color }}
-                />
+                {soilResult.color && (
+                  <div 
+                    className="w-12 h-12 rounded-lg border-2"
+                    style={{ backgroundColor: soilResult.color }}
+                  />
+                )}
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-2">
-                    <h3 className="text-xl font-semibold">{soilResult.type}</h3>
-                    <Badge variant="secondary">{soilResult.confidence}% confidence</Badge>
+                    <h3 className="text-xl font-semibold">{taxonomy.name}</h3>
+                    <Badge variant="secondary">
+                      {taxonomy.system !== "usda" && `${soilResult.type} · `}{soilResult.texture.source === "lab" ? "Lab-measured texture" : classScoreLabel(soilResult.confidence / 100)}
+                    </Badge>
+                    {soilResult.agreement !== undefined && (
+                      <Badge variant={soilResult.agreement < 50 ? "destructive" : "outline"}>
+                        {soilResult.agreement}% image agreement
+                      </Badge>
+                    )}
                   </div>
-                  <p className="text-muted-foreground mb-3">{soilResult.description}</p>
+                  <p className="text-sm mb-2">
+                    {soilResult.munsell ? (
+                      <><span className="font-medium">Munsell colour:</span> {soilResult.munsell.notation}</>
+                    ) : (
+                      "From lab values alone; add a photo to read the colour."
+                    )}
+                  </p>
+                  {soilResult.alternatives.length > 0 && (
+                    <div className="flex items-center gap-2 flex-wrap mb-3 text-sm">
+                      <span className="font-medium">Also possible:</span>
+                      {soilResult.alternatives.map((alt) => (
+                        <Badge key={alt.type} variant="outline">
+                          {alt.type} · {classScoreLabel(alt.probability).toLowerCase()}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-muted-foreground mb-3">{taxonomy.description}</p>
+                  {taxonomy.system !== "usda" && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {getTaxonomySystem(taxonomy.system).label}. Based on: {taxonomy.basis.join("; ")}. A field survey or lab test is needed to confirm the group.
+                    </p>
+                  )}
+                  {soilResult.region && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Based on the marked soil region ({Math.round(soilResult.region.width * soilResult.region.height * 100)}% of the image)
+                    </p>
+                  )}
                   
-                  <Dialog>
-                    <DialogTrigger asChild>
-                      <Button variant="outline" size="sm" onClick={() => toast.info("Soil analysis explanation opened")}>
-                        Explain Results
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Soil Analysis Explanation</DialogTitle>
-                      </DialogHeader>
-                      <div className="space-y-4">
-                        <div className="flex items-center gap-3">
-                          <div 
-                            className="w-8 h-8 rounded border"
-                            style={{ backgroundColor: soilResult.color }}
-                          />
-                          <div>
-                            <h4 className="font-medium">{soilResult.type}</h4>
-                            <p className="text-sm text-muted-foreground">Confidence: {soilResult.confidence}%</p>
+                  <div className="mb-3 space-y-2">
+                    <p className="text-sm">
+                      <span className="font-medium">{soilResult.texture.source === "lab" ? "Measured texture:" : "Estimated texture:"}</span>{" "}
+                      {soilResult.texture.sand}% sand, {soilResult.texture.silt}% silt, {soilResult.texture.clay}% clay
+                    </p>
+                    <TextureTriangle texture={soilResult.texture} type={soilResult.type} />
+                  </div>
+
+                  {(soilResult.moisture || soilResult.organicMatter) && (
+                    <div className="mb-3 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                      {soilResult.moisture && (
+                        <div className="p-3 bg-muted rounded-lg">
+                          <div className="font-medium">Surface moisture</div>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span>{MOISTURE_LABELS[soilResult.moisture.state]}</span>
+                            <Badge variant="outline">{certaintyLabel(soilResult.moisture)}</Badge>
                           </div>
                         </div>
-                        <p className="text-sm">{soilResult.description}</p>
-                        <div className="space-y-2">
-                          <h5 className="font-medium">Key Characteristics:</h5>
-                          <ul className="text-sm space-y-1 text-muted-foreground">
-                            <li>• Good drainage and water retention balance</li>
-                            <li>• Rich in organic matter and nutrients</li>
-                            <li>• Suitable pH range for most crops</li>
-                            <li>• Easy to work with standard tools</li>
-                          </ul>
+                      )}
+                      {soilResult.organicMatter && (
+                        <div className="p-3 bg-muted rounded-lg">
+                          <div className="font-medium">Organic matter</div>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span>
+                              {ORGANIC_MATTER_LABELS[soilResult.organicMatter.band]} ({formatOrganicMatterRange(soilResult.organicMatter)})
+                            </span>
+                            <Badge variant="outline">{certaintyLabel(soilResult.organicMatter)}</Badge>
+                          </div>
                         </div>
+                      )}
+                      {soilResult.organicMatter?.source !== "lab" && (
+                        <p className="text-xs text-muted-foreground sm:col-span-2">
+                          Read from how dark the soil looks. Wet and organic-rich soils both look dark, so treat these as rough guides; a lab organic carbon value replaces the organic matter estimate.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {soilResult.images && (
+                    <div className="mb-3 p-3 bg-muted rounded-lg">
+                      <h4 className="text-sm font-medium mb-2">Per-image results</h4>
+                      <div className="space-y-2 text-sm">
+                        {soilResult.images.map((image, i) => (
+                          <div key={`${image.name}-${i}`} className="flex items-center gap-2">
+                            <div className="w-4 h-4 rounded border shrink-0" style={{ backgroundColor: image.color }} />
+                            <span className="truncate flex-1">{image.name}</span>
+                            <span className={image.type === soilResult.type ? "" : "text-warning"}>{image.type}</span>
+                            <span className="text-muted-foreground">{classScoreLabel(image.confidence / 100)}</span>
+                          </div>
+                        ))}
+                      </div>
+                      {soilResult.agreement !== undefined && soilResult.agreement < 100 && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          The images do not all agree, so the combined texture is less certain. Check for mixed soils or photos of different spots.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {soilResult.lab && (
+                    <div className="mb-3 p-3 bg-muted rounded-lg">
+                      <h4 className="text-sm font-medium mb-2">Lab Values</h4>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+                        {LAB_PARAMETERS.filter((p) => soilResult.lab?.[p.key] !== undefined).map((p) => (
+                          <div key={p.key}>
+                            {p.label}: {soilResult.lab?.[p.key]}{p.unit && ` ${p.unit}`}
+                          </div>
+                        ))}
                       </div>
-                    </DialogContent>
-                  </Dialog>
+                    </div>
+                  )}
+                  
+                  {soilResult.provenance && (
+                    <div className="mb-3">
+                      <ProvenanceDetails title="About this result" provenance={soilResult.provenance} />
+                    </div>
+                  )}
+
+                  <ExplainResultsDialog soil={soilResult} />
                 </div>
               </div>
             </CardContent>
@@ -805,15 +1276,30 @@ export default function SoilAnalyzer() {
                     <Undo className="h-4 w-4 mr-2" />
                     Refresh Suggestions
                   </Button>
-                  {selectedCropsForComparison.length > 1 && (
-                    <Button variant="outline" size="sm" onClick={() => toast.info("Comparison feature coming soon")}>
-                      Compare Selected ({selectedCropsForComparison.length})
+                  {comparedCrops.length > 1 && (
+                    <Button variant="outline" size="sm" onClick={() => setShowComparison(true)}>
+                      Compare Selected ({comparedCrops.length})
                     </Button>
                   )}
                 </div>
               </div>
             </CardHeader>
             <CardContent>
+              {recommendationConflict && (
+                <Alert className="mb-4">
+                  <AlertTitle>
+                    Borderline sample: it may be {recommendationConflict.alternativeType} ({classScoreLabel(recommendationConflict.probability).toLowerCase()})
+                  </AlertTitle>
+                  <AlertDescription>
+                    {recommendationConflict.onlyForTop.length > 0 && (
+                      <p>Not suited to {recommendationConflict.alternativeType}: {recommendationConflict.onlyForTop.join(", ")}.</p>
+                    )}
+                    {recommendationConflict.onlyForAlternative.length > 0 && (
+                      <p>Would be recommended for {recommendationConflict.alternativeType}: {recommendationConflict.onlyForAlternative.join(", ")}.</p>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {cropSuggestions.map((crop) => (
                   <Card key={crop.name} className="bg-muted/50">
@@ -834,13 +1320,35 @@ export default function SoilAnalyzer() {
                         
                         <div className="text-sm space-y-1">
                           <p><span className="font-medium">Season:</span> {crop.season}</p>
+                          {crop.sowingWindow && (
+                            <p>
+                              <span className="font-medium">Sowing window:</span> {formatSowingWindow(crop.sowingWindow)}
+                              {" "}
+                              <span className="text-muted-foreground">
+                                ({crop.sowingWindow.opensInDays === 0 ? "open now" : `opens in ${crop.sowingWindow.opensInDays} days`})
+                              </span>
+                            </p>
+                          )}
                           <p><span className="font-medium">Why recommended:</span> {crop.reason}</p>
+                          {crop.irrigation && (
+                            <p><span className="font-medium">Irrigation:</span> {crop.irrigation}</p>
+                          )}
                         </div>
                         
                         {expandedCrop === crop.name && (
                           <div className="p-3 bg-card rounded border">
                             <h5 className="font-medium mb-2">Detailed Analysis</h5>
                             <p className="text-sm text-muted-foreground">{crop.details}</p>
+                            {crop.factors && (
+                              <div className="mt-3">
+                                <CropFactorTable factors={crop.factors} suitability={crop.suitability} />
+                              </div>
+                            )}
+                            {crop.provenance && (
+                              <div className="mt-3">
+                                <ProvenanceDetails title="About this suggestion" provenance={crop.provenance} />
+                              </div>
+                            )}
                           </div>
                         )}
                         
@@ -854,12 +1362,12 @@ export default function SoilAnalyzer() {
                           </Button>
                           
                           <Button
-                            variant={crop.saved ? "default" : "outline"}
+                            variant={savedCropNames.has(crop.name) ? "default" : "outline"}
                             size="sm"
-                            onClick={() => toggleCropSaved(crop.name)}
+                            onClick={() => toggleCropSaved(crop)}
                           >
                             <Tractor className="h-4 w-4 mr-1" />
-                            {crop.saved ? "Saved" : "Save to Plans"}
+                            {savedCropNames.has(crop.name) ? "Saved" : "Save to Plans"}
                           </Button>
                           
                           <Button
@@ -879,6 +1387,10 @@ export default function SoilAnalyzer() {
           </Card>
         )}
 
+        {(cropPlans.savedCrops.length > 0 || hasPlannedCrops(cropPlans.fields)) && (
+          <RotationPlanner cropPlans={cropPlans} onPlansChange={setCropPlans} location={location} />
+        )}
+
         {/* Export & Share Controls */}
         {(soilResult || cropSuggestions.length > 0) && (
           <Card className="bg-card">
@@ -943,21 +1455,22 @@ export default function SoilAnalyzer() {
               <Shovel className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-medium mb-2">Ready to Analyze Your Soil?</h3>
               <p className="text-muted-foreground mb-4">
-                Upload a clear photo of your soil sample to get started with AI-powered analysis and personalized crop recommendations.
+                Upload clear photos of your soil sample to get started with AI-powered analysis and personalized crop recommendations.
               </p>
               <div className="flex gap-2 justify-center">
                 <Label htmlFor="empty-file-input">
                   <Button asChild>
                     <span>
                       <Images className="h-4 w-4 mr-2" />
-                      Upload Soil Image
+                      Upload Soil Images
                     </span>
                   </Button>
                 </Label>
                 <input
                   id="empty-file-input"
                   type="file"
-                  accept="image/jpeg,image/png"
+                  accept={ACCEPTED_IMAGE_TYPES}
+                  multiple
                   className="hidden"
                   onChange={handleFileInputChange}
                 />
@@ -967,22 +1480,129 @@ export default function SoilAnalyzer() {
         )}
 
         {/* Image Zoom Modal */}
-        <Dialog open={showImageZoom} onOpenChange={setShowImageZoom}>
+        <Dialog
+          open={showImageZoom}
+          onOpenChange={(open) => {
+            setShowImageZoom(open);
+            if (!open) setZoomMode("view");
+          }}
+        >
           <DialogContent className="max-w-3xl">
             <DialogHeader>
               <DialogTitle>Soil Sample Image</DialogTitle>
+              {zoomMode === "region" && (
+                <DialogDescription>Drag over the image to mark the bare soil. Only that region will be analyzed.</DialogDescription>
+              )}
+              {zoomMode === "point" && (
+                <DialogDescription>Tap the centre of the reference card in the photo, or let us find it.</DialogDescription>
+              )}
             </DialogHeader>
             {previewUrl && (
               <div className="max-h-[70vh] overflow-auto">
-                <img 
-                  src={previewUrl} 
-                  alt="Soil sample - full size"
-                  className="w-full h-auto rounded-lg"
+                <RegionSelector
+                  src={previewUrl}
+                  region={soilRegion}
+                  onChange={setSoilRegion}
+                  mode={zoomMode}
+                  onPoint={calibrateColor}
+                  marker={calibration?.point}
+                  overlay={showHeatmap && heatmap && <HeatmapOverlay heatmap={heatmap} layer={heatmapLayer} />}
                 />
               </div>
             )}
+            {showHeatmap && (
+              <div className="space-y-2">
+                {heatmap ? (
+                  <>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={heatmapLayer}
+                      onValueChange={(value) => value && setHeatmapLayer(value)}
+                      className="flex-wrap"
+                    >
+                      <ToggleGroupItem value="cluster" disabled={!heatmap.hasCluster}>
+                        Dominant colour
+                      </ToggleGroupItem>
+                      {heatmapLayers.map(({ type, mean }) => (
+                        <ToggleGroupItem key={type} value={type}>
+                          {type} {Math.round(mean * 100)}%
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    <p className="text-xs text-muted-foreground">
+                      {heatmapLayer === "cluster"
+                        ? "Red marks the colour the classification was based on."
+                        : `Red marks areas whose colour reads as ${heatmapLayer}; percentages are averages over the analysed area.`}
+                      {" "}Grey cells were ignored as not soil, such as shadows, stones or plants.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Computing heatmap...</p>
+                )}
+              </div>
+            )}
+            {zoomMode === "point" && (
+              <div className="flex items-end gap-2 flex-wrap">
+                <div className="space-y-2">
+                  <Label>Reference card</Label>
+                  <Select value={referenceCardId} onValueChange={setReferenceCardId}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REFERENCE_CARDS.map((card) => (
+                        <SelectItem key={card.id} value={card.id}>{card.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={() => calibrateColor()}>
+                  Auto-detect Card
+                </Button>
+              </div>
+            )}
+            <div className="flex justify-end gap-2 flex-wrap">
+              <Button
+                variant={showHeatmap ? "default" : "outline"}
+                onClick={() => setShowHeatmap(!showHeatmap)}
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                {showHeatmap ? "Hide Heatmap" : "Show Heatmap"}
+              </Button>
+              {calibration && (
+                <Button variant="outline" onClick={() => setCalibration(null)}>
+                  <Undo className="h-4 w-4 mr-2" />
+                  Remove Calibration
+                </Button>
+              )}
+              {soilRegion && (
+                <Button variant="outline" onClick={() => setSoilRegion(null)}>
+                  <Undo className="h-4 w-4 mr-2" />
+                  Clear Region
+                </Button>
+              )}
+              <Button
+                variant={zoomMode === "point" ? "default" : "outline"}
+                onClick={() => setZoomMode(zoomMode === "point" ? "view" : "point")}
+              >
+                <CircleDot className="h-4 w-4 mr-2" />
+                {zoomMode === "point" ? "Done" : "Calibrate Colour"}
+              </Button>
+              <Button
+                variant={zoomMode === "region" ? "default" : "outline"}
+                onClick={() => setZoomMode(zoomMode === "region" ? "view" : "region")}
+              >
+                <Crop className="h-4 w-4 mr-2" />
+                {zoomMode === "region" ? "Done" : "Mark Soil Region"}
+              </Button>
+            </div>
           </DialogContent>
         </Dialog>
+
+        <CameraDialog open={showCamera} onOpenChange={setShowCamera} onCapture={handleCameraCapture} />
+        <CropComparisonDialog open={showComparison} onOpenChange={setShowComparison} crops={comparedCrops} />
       </div>
     </TooltipProvider>
   );
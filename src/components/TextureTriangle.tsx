@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useCallback, useRef, useState } from 'react';
+import { TEXTURE_CLASSES, fromTriangle, toTriangle, usdaTextureClass, type TexturePoint } from "@/lib/soil/texture";
+import type { SoilTexture } from "@/lib/soil/types";
+
+interface TextureTriangleProps {
+  texture: SoilTexture;
+  type: string;
+}
+
+const HEIGHT = 50 * Math.sqrt(3);
+
+// Flip y so clay grows towards the top of the SVG
+function toSvg(point: TexturePoint) {
+  const [x, y] = toTriangle(point);
+  return [x, HEIGHT - y] as const;
+}
+
+function centroid(polygon: TexturePoint[]) {
+  const points = polygon.map(toSvg);
+  return [
+    points.reduce((acc, [x]) => acc + x, 0) / points.length,
+    points.reduce((acc, [, y]) => acc + y, 0) / points.length,
+  ] as const;
+}
+
+export default function TextureTriangle({ texture, type }: TextureTriangleProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hover, setHover] = useState<{ sand: number; silt: number; clay: number; type: string } | null>(null);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+
+    const cursor = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    const [sand, clay] = fromTriangle([cursor.x, HEIGHT - cursor.y]).map(Math.round);
+    const silt = 100 - sand - clay;
+    if (sand < 0 || clay < 0 || silt < 0) {
+      setHover(null);
+      return;
+    }
+    setHover({ sand, silt, clay, type: usdaTextureClass(sand, silt, clay) });
+  }, []);
+
+  const [px, py] = toSvg([texture.sand, texture.clay]);
+  const activeType = hover?.type ?? type;
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        viewBox={`-8 -6 116 ${HEIGHT + 16}`}
+        className="w-full max-w-sm mx-auto"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+        role="img"
+        aria-label={`USDA texture triangle: ${texture.sand}% sand, ${texture.silt}% silt, ${texture.clay}% clay`}
+      >
+        {TEXTURE_CLASSES.map((textureClass) => {
+          const isSample = textureClass.type === type;
+          const isActive = textureClass.type === activeType;
+          const [lx, ly] = centroid(textureClass.polygon);
+          return (
+            <g key={textureClass.type}>
+              <polygon
+                points={textureClass.polygon.map((p) => toSvg(p).join(",")).join(" ")}
+                className={isActive ? "fill-primary/25" : isSample ? "fill-primary/10" : "fill-muted"}
+                stroke="currentColor"
+                strokeOpacity={0.4}
+                strokeWidth={0.3}
+              />
+              <text
+                x={lx}
+                y={ly}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="fill-muted-foreground pointer-events-none"
+                fontSize={2.4}
+              >
+                {textureClass.type}
+              </text>
+            </g>
+          );
+        })}
+
+        <circle
+          cx={px}
+          cy={py}
+          r={texture.uncertainty}
+          className="fill-primary/10 stroke-primary pointer-events-none"
+          strokeWidth={0.3}
+          strokeDasharray="1 1"
+        />
+        <circle cx={px} cy={py} r={1.2} className="fill-primary stroke-background pointer-events-none" strokeWidth={0.4} />
+
+        <text x={0} y={HEIGHT + 6} textAnchor="middle" className="fill-foreground" fontSize={3}>Sand</text>
+        <text x={100} y={HEIGHT + 6} textAnchor="middle" className="fill-foreground" fontSize={3}>Silt</text>
+        <text x={50} y={-2} textAnchor="middle" className="fill-foreground" fontSize={3}>Clay</text>
+      </svg>
+
+      <div className="text-sm text-center text-muted-foreground">
+        {hover ? (
+          <span>
+            {hover.type}: {hover.sand}% sand, {hover.silt}% silt, {hover.clay}% clay
+          </span>
+        ) : (
+          <span>
+            Estimate ±{texture.uncertainty} pts · {texture.boundaryDistance} pts from the nearest class boundary
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
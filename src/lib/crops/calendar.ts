@@ -0,0 +1,138 @@
+import type { CropProfile } from "@/lib/crops/knowledge";
+import { isSouthernHemisphere } from "@/lib/soil/places";
+import { isInIndia } from "@/lib/soil/taxonomy";
+import type { CroppingSeason, LocationData, SowingWindow } from "@/lib/soil/types";
+
+interface SeasonInfo {
+  id: CroppingSeason;
+  name: string;
+  description: string;
+  /** Sowing window as [month, day], with January as 0; northern hemisphere. */
+  sowing: { start: [month: number, day: number]; end: [month: number, day: number] };
+}
+
+export const INDIAN_SEASONS: SeasonInfo[] = [
+  {
+    id: "kharif",
+    name: "Kharif",
+    description: "Monsoon crops, sown with the first rains and harvested in September–October.",
+    sowing: { start: [5, 1], end: [6, 31] },
+  },
+  {
+    id: "rabi",
+    name: "Rabi",
+    description: "Winter crops, sown after the monsoon and harvested in March–April.",
+    sowing: { start: [9, 15], end: [11, 15] },
+  },
+  {
+    id: "zaid",
+    name: "Zaid",
+    description: "Short, irrigated summer crops grown between rabi and kharif.",
+    sowing: { start: [2, 1], end: [3, 30] },
+  },
+];
+
+export const TEMPERATE_SEASONS: SeasonInfo[] = [
+  {
+    id: "spring",
+    name: "Spring",
+    description: "Sown once the risk of frost has passed.",
+    sowing: { start: [2, 15], end: [4, 31] },
+  },
+  {
+    id: "summer",
+    name: "Summer",
+    description: "Sown in early summer for an autumn harvest.",
+    sowing: { start: [5, 1], end: [6, 31] },
+  },
+  {
+    id: "autumn",
+    name: "Autumn",
+    description: "Sown in autumn to overwinter and finish in spring.",
+    sowing: { start: [8, 1], end: [9, 31] },
+  },
+];
+
+// Windows opening within this many days count as the coming window
+export const COMING_WINDOW_DAYS = 45;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Day of a month, clamped so that a shifted 31 May lands on 30 November, not 1 December
+function localDate(year: number, month: number, day: number) {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay));
+}
+
+function isoDate(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Parses a YYYY-MM-DD window date as a local date. */
+export function parseWindowDate(value: string) {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The local cropping calendar: Kharif, Rabi and Zaid in India, temperate
+ * seasons elsewhere, shifted by six months south of the equator.
+ */
+export function localCalendar(location: LocationData | null | undefined) {
+  if (location && isInIndia(location)) return { seasons: INDIAN_SEASONS, monthShift: 0 };
+  return { seasons: TEMPERATE_SEASONS, monthShift: location && isSouthernHemisphere(location) ? 6 : 0 };
+}
+
+/** The next opening of one season's window that has not closed by `date`. */
+function nextOpening(season: SeasonInfo, monthShift: number, date: Date): SowingWindow {
+  const today = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const [startMonth, startDay] = season.sowing.start;
+  const [endMonth, endDay] = season.sowing.end;
+
+  for (let year = today.getFullYear() - 1; ; year++) {
+    const start = localDate(year, startMonth + monthShift, startDay);
+    // Windows that run across the new year end in the following one
+    const end = localDate(year + (endMonth < startMonth ? 1 : 0), endMonth + monthShift, endDay);
+    if (end >= today) {
+      return {
+        season: season.id,
+        name: season.name,
+        start: isoDate(start),
+        end: isoDate(end),
+        opensInDays: Math.max(0, Math.round((start.getTime() - today.getTime()) / DAY_MS)),
+      };
+    }
+  }
+}
+
+/** The seasons a crop can be sown in under the local calendar. */
+export function cropSeasons(crop: CropProfile, location: LocationData | null | undefined): CroppingSeason[] {
+  return localCalendar(location).seasons === INDIAN_SEASONS ? crop.seasons.india : crop.seasons.temperate;
+}
+
+/** The next window of every local season, soonest first, for laying out a year. */
+export function seasonSequence(location: LocationData | null | undefined, date = new Date()) {
+  const { seasons, monthShift } = localCalendar(location);
+  return seasons
+    .map((season) => nextOpening(season, monthShift, date))
+    .sort((a, b) => a.opensInDays - b.opensInDays || a.start.localeCompare(b.start));
+}
+
+/** The crop's sowing windows in the local calendar, soonest first. */
+export function sowingWindows(crop: CropProfile, location: LocationData | null | undefined, date = new Date()) {
+  const seasons = cropSeasons(crop, location);
+  return seasonSequence(location, date).filter((window) => seasons.includes(window.season));
+}
+
+/** Whether a window is open now or opens soon enough to plan for. */
+export function isComingWindow(window: SowingWindow | undefined) {
+  return window !== undefined && window.opensInDays <= COMING_WINDOW_DAYS;
+}
+
+/** "15 Oct – 15 Dec" for a window. */
+export function formatSowingWindow(window: SowingWindow) {
+  const format = (value: string) =>
+    parseWindowDate(value).toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+  return `${format(window.start)} – ${format(window.end)}`;
+}
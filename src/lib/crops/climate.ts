@@ -0,0 +1,15 @@
+import { indianState } from "@/lib/soil/india";
+import type { LocationData } from "@/lib/soil/types";
+
+export interface RainfallEstimate {
+  /** Mean annual rainfall, in mm. */
+  annual: number;
+  /** Where the figure comes from, for display. */
+  region: string;
+}
+
+/** Long-term rainfall for the location's state, whether typed in or placed from its coordinates. */
+export function annualRainfall(location: LocationData | null | undefined): RainfallEstimate | null {
+  const state = indianState(location);
+  return state ? { annual: state.rainfall, region: state.name } : null;
+}
@@ -0,0 +1,151 @@
+import { getCropProfile, type CropProfile, type Level } from "@/lib/crops/knowledge";
+import { limitingFactor } from "@/lib/crops/suitability";
+import type { CropSuggestion, SuitabilityFactor } from "@/lib/soil/types";
+
+// The most crops shown side by side
+export const MAX_COMPARED_CROPS = 4;
+
+// Below this a limiting factor raises the crop's risk by a level
+const RISKY_FACTOR_SCORE = 50;
+
+const LEVELS: Level[] = ["low", "medium", "high"];
+
+export interface ComparisonCell {
+  text: string;
+  /** Longer explanation, shown on hover. */
+  detail?: string;
+  best: boolean;
+  /** The crop's limiting factor, on factor rows. */
+  limiting?: boolean;
+}
+
+export interface ComparisonRow {
+  id: string;
+  label: string;
+  cells: ComparisonCell[];
+}
+
+function capitalize(value: string) {
+  return `${value[0].toUpperCase()}${value.slice(1)}`;
+}
+
+/**
+ * Marks the cells holding the best value. Nothing is marked when every crop
+ * ties, or for rows without a common scale.
+ */
+function markBest(
+  values: (number | null)[],
+  better: "higher" | "lower" | null
+): boolean[] {
+  const known = values.filter((value): value is number => value !== null);
+  if (!better || known.length === 0 || known.every((value) => value === known[0])) return values.map(() => false);
+  const best = better === "higher" ? Math.max(...known) : Math.min(...known);
+  return values.map((value) => value === best);
+}
+
+/** A row of low/medium/high levels; unknown levels show as "—" and are never best. */
+function levelRow(
+  id: string,
+  label: string,
+  levels: (Level | undefined)[],
+  details: (string | undefined)[] = []
+): ComparisonRow {
+  const best = markBest(levels.map((level) => (level ? LEVELS.indexOf(level) : null)), "lower");
+  return {
+    id,
+    label,
+    cells: levels.map((level, i) => ({ text: level ? capitalize(level) : "—", detail: details[i], best: best[i] })),
+  };
+}
+
+/** The crop's typical yield scaled by how well it suits this site. */
+export function expectedYield(profile: CropProfile, suitability: number): [number, number] {
+  const [min, max] = profile.yieldPerHectare;
+  return [min * suitability / 100, max * suitability / 100];
+}
+
+function formatYield(value: number) {
+  return value >= 10 ? value.toFixed(0) : value.toFixed(1);
+}
+
+/** The knowledge-base risk, a level higher when a factor at this site is badly off. */
+export function cropRisk(profile: CropProfile, factors: SuitabilityFactor[] = []) {
+  const limiting = limitingFactor(factors);
+  const raised = limiting !== null && limiting.score! < RISKY_FACTOR_SCORE;
+  const level = LEVELS[Math.min(LEVELS.indexOf(profile.risk.level) + (raised ? 1 : 0), LEVELS.length - 1)];
+  return { level, note: raised ? `${profile.risk.note} ${limiting.note}` : profile.risk.note };
+}
+
+/**
+ * Rows comparing crops side by side: overall suitability, each suitability
+ * factor, then the practical side of growing them. Yields are of different
+ * produce, so that row has no best value.
+ */
+export function compareCrops(crops: CropSuggestion[]): ComparisonRow[] {
+  const profiles = crops.map((crop) => getCropProfile(crop.name));
+  const rows: ComparisonRow[] = [];
+
+  const suitabilityBest = markBest(crops.map((crop) => crop.suitability), "higher");
+  rows.push({
+    id: "suitability",
+    label: "Suitability",
+    cells: crops.map((crop, i) => ({ text: `${crop.suitability}%`, best: suitabilityBest[i] })),
+  });
+
+  // Factors in the order the engine reports them, across all the crops
+  const factorIds = Array.from(new Set(crops.flatMap((crop) => (crop.factors ?? []).map((factor) => factor.id))));
+  for (const id of factorIds) {
+    const factors = crops.map((crop) => crop.factors?.find((factor) => factor.id === id));
+    const limiting = crops.map((crop) => limitingFactor(crop.factors ?? []));
+    const best = markBest(factors.map((factor) => factor?.score ?? null), "higher");
+    rows.push({
+      id: `factor-${id}`,
+      label: factors.find(Boolean)!.label,
+      cells: factors.map((factor, i) => ({
+        text: factor?.score != null ? `${factor.score}` : "—",
+        detail: factor?.note,
+        best: best[i],
+        limiting: factor !== undefined && factor === limiting[i],
+      })),
+    });
+  }
+
+  rows.push(levelRow("waterNeed", "Water need", crops.map((crop) => crop.waterNeed)));
+
+  const durationBest = markBest(crops.map((crop) => crop.durationDays?.[0] ?? null), "lower");
+  rows.push({
+    id: "duration",
+    label: "Duration",
+    cells: crops.map((crop, i) => ({
+      text: crop.durationDays ? `${crop.durationDays[0]}–${crop.durationDays[1]} days` : "—",
+      best: durationBest[i],
+    })),
+  });
+
+  rows.push({
+    id: "yield",
+    label: "Expected yield",
+    cells: crops.map((crop, i) => {
+      const profile = profiles[i];
+      if (!profile) return { text: "—", best: false };
+      const [min, max] = expectedYield(profile, crop.suitability);
+      return {
+        text: `${formatYield(min)}–${formatYield(max)} t/ha`,
+        detail: `Typical ${profile.yieldPerHectare.join("–")} t/ha, scaled by ${crop.suitability}% suitability.`,
+        best: false,
+      };
+    }),
+  });
+
+  rows.push(levelRow("inputCost", "Input cost", profiles.map((profile) => profile?.inputCost)));
+
+  const risks = crops.map((crop, i) => (profiles[i] ? cropRisk(profiles[i]!, crop.factors) : null));
+  rows.push(levelRow(
+    "risk",
+    "Risk",
+    risks.map((risk) => risk?.level),
+    risks.map((risk) => risk?.note)
+  ));
+
+  return rows;
+}
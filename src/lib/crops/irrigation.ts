@@ -0,0 +1,60 @@
+import type { MoistureEstimate, OrganicMatterEstimate, WaterNeed, WeatherData } from "@/lib/soil/types";
+
+/** What is known about the field beyond its texture class. */
+export interface GrowingConditions {
+  moisture?: MoistureEstimate;
+  organicMatter?: OrganicMatterEstimate;
+  weather?: WeatherData;
+}
+
+// Rain at least this heavy, in mm, covers watering for a few days
+export const SOAKING_RAIN = 5;
+// Above this temperature, in °C, crops use noticeably more water
+const HOT_DAY = 30;
+// Image moisture estimates below this confidence should be checked by hand
+const CHECK_BY_HAND_BELOW = 60;
+
+const DRY_SOIL_ADVICE: Record<WaterNeed, string> = {
+  low: "The surface looks dry; a light watering at sowing is enough.",
+  medium: "The surface looks dry; water before sowing so the seedbed is moist.",
+  high: "The surface looks dry; water deeply before sowing and keep the soil evenly moist.",
+};
+
+/**
+ * Watering advice for a crop on this soil, from the surface moisture seen in
+ * the photo, the texture class, organic matter and current weather.
+ */
+export function irrigationAdvice(soilType: string, waterNeed: WaterNeed, conditions: GrowingConditions): string {
+  const { moisture, organicMatter, weather } = conditions;
+  const advice: string[] = [];
+
+  if (weather && weather.precipitation >= SOAKING_RAIN) {
+    advice.push("Recent rain should cover watering for now; check the soil again in a few days.");
+  } else if (moisture?.state === "wet") {
+    advice.push(waterNeed === "high"
+      ? "The surface looks wet; hold off watering until the top few centimetres start to dry."
+      : "The surface looks wet; wait for it to dry out before sowing to avoid waterlogged roots.");
+  } else if (moisture?.state === "dry") {
+    advice.push(DRY_SOIL_ADVICE[waterNeed]);
+  } else if (moisture?.state === "moist") {
+    advice.push("Surface moisture looks adequate; water as the crop needs it.");
+  }
+
+  if (soilType.includes("Sand")) {
+    advice.push("Sandy soil drains fast, so water little and often.");
+  } else if (soilType.includes("Clay")) {
+    advice.push("Clay holds water, so water less often but deeply.");
+  }
+
+  if (organicMatter?.band === "low") {
+    advice.push("Low organic matter holds less water; mulch to keep moisture in.");
+  }
+  if (weather && weather.temperature > HOT_DAY) {
+    advice.push("Hot weather raises water use; water early in the morning.");
+  }
+  if (moisture && moisture.confidence < CHECK_BY_HAND_BELOW) {
+    advice.push("Surface moisture is a rough estimate from the photo, so check by hand before watering.");
+  }
+
+  return advice.join(" ");
+}
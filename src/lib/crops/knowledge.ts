@@ -0,0 +1,491 @@
+import type { IndianSeason, TemperateSeason, WaterNeed } from "@/lib/soil/types";
+
+export type Level = "low" | "medium" | "high";
+
+export type CropFamily =
+  | "Poaceae"
+  | "Fabaceae"
+  | "Solanaceae"
+  | "Brassicaceae"
+  | "Cucurbitaceae"
+  | "Amaryllidaceae"
+  | "Apiaceae"
+  | "Asteraceae"
+  | "Malvaceae";
+
+/** An optimum band inside the wider band a crop tolerates at all. */
+export interface Tolerance {
+  optimum: [min: number, max: number];
+  limits: [min: number, max: number];
+}
+
+export interface CropProfile {
+  name: string;
+  family: CropFamily;
+  /** Seasons it can be sown in, in each cropping calendar. */
+  seasons: { india: IndianSeason[]; temperate: TemperateSeason[] };
+  description: string;
+  textures: {
+    preferred: string[];
+    /** Workable, with lower yields or more management. */
+    tolerated: string[];
+  };
+  ph: Tolerance;
+  /** Mean air temperature over the growing season, in °C. */
+  temperature: Tolerance;
+  /** Annual rainfall, in mm. */
+  rainfall: Tolerance;
+  /** Soil EC, in dS/m, above which yield starts to fall. */
+  ecThreshold: number;
+  /** Sowing to harvest, in days. */
+  durationDays: [min: number, max: number];
+  waterNeed: WaterNeed;
+  /** Needs fertile, organic-rich soil for a full yield. */
+  heavyFeeder: boolean;
+  /** Indian states where it is a major crop, so seed, advice and markets are close at hand. */
+  majorStates: string[];
+  /** Typical harvest under good management, in t/ha of its own produce. */
+  yieldPerHectare: [min: number, max: number];
+  /** Seed, fertiliser, labour and water per hectare, relative to the other crops. */
+  inputCost: Level;
+  /** Exposure to pests, disease, weather and prices, with the main threats. */
+  risk: { level: Level; note: string };
+}
+
+// Bands follow FAO ECOCROP and ICAR package-of-practice ranges; salinity
+// thresholds are the Maas–Hoffman values and yields typical Indian figures
+// under good management
+export const CROP_KNOWLEDGE: CropProfile[] = [
+  {
+    name: "Rice",
+    family: "Poaceae",
+    seasons: { india: ["kharif"], temperate: ["spring"] },
+    description: "Staple grain grown in puddled, flooded fields.",
+    textures: {
+      preferred: ["Clay", "Silty Clay", "Clay Loam", "Silty Clay Loam"],
+      tolerated: ["Silt Loam", "Sandy Clay", "Loam", "Sandy Clay Loam"],
+    },
+    ph: { optimum: [5.5, 7.0], limits: [4.5, 8.0] },
+    temperature: { optimum: [20, 30], limits: [10, 36] },
+    rainfall: { optimum: [1200, 3000], limits: [800, 4500] },
+    ecThreshold: 3.0,
+    durationDays: [90, 150],
+    waterNeed: "high",
+    heavyFeeder: true,
+    majorStates: [
+      "West Bengal", "Uttar Pradesh", "Punjab", "Andhra Pradesh", "Telangana", "Odisha",
+      "Tamil Nadu", "Bihar", "Chhattisgarh", "Assam", "Haryana", "Kerala",
+    ],
+    yieldPerHectare: [3.5, 5],
+    inputCost: "high",
+    risk: { level: "medium", note: "Blast and stem borer; fails without assured water." },
+  },
+  {
+    name: "Wheat",
+    family: "Poaceae",
+    seasons: { india: ["rabi"], temperate: ["autumn", "spring"] },
+    description: "Cool-season cereal, usually sown after the monsoon on stored soil moisture.",
+    textures: {
+      preferred: ["Loam", "Clay Loam", "Silt Loam", "Silty Clay Loam"],
+      tolerated: ["Sandy Loam", "Sandy Clay Loam", "Clay", "Silty Clay"],
+    },
+    ph: { optimum: [6.0, 8.0], limits: [5.0, 9.0] },
+    temperature: { optimum: [15, 23], limits: [5, 30] },
+    rainfall: { optimum: [500, 900], limits: [300, 1600] },
+    ecThreshold: 6.0,
+    durationDays: [110, 150],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: ["Uttar Pradesh", "Punjab", "Haryana", "Madhya Pradesh", "Rajasthan", "Bihar", "Gujarat"],
+    yieldPerHectare: [3.5, 5],
+    inputCost: "medium",
+    risk: { level: "low", note: "Rusts in cool, wet spells and heat at grain fill." },
+  },
+  {
+    name: "Maize",
+    family: "Poaceae",
+    seasons: { india: ["kharif", "zaid"], temperate: ["spring"] },
+    description: "Fast-growing cereal for grain or fodder; sensitive to waterlogging.",
+    textures: {
+      preferred: ["Loam", "Silt Loam", "Sandy Loam", "Clay Loam"],
+      tolerated: ["Sandy Clay Loam", "Silty Clay Loam", "Loamy Sand"],
+    },
+    ph: { optimum: [5.8, 7.0], limits: [5.0, 8.0] },
+    temperature: { optimum: [18, 33], limits: [10, 40] },
+    rainfall: { optimum: [600, 1200], limits: [400, 1800] },
+    ecThreshold: 1.7,
+    durationDays: [90, 120],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: [
+      "Karnataka", "Madhya Pradesh", "Maharashtra", "Rajasthan", "Bihar", "Uttar Pradesh",
+      "Telangana", "Andhra Pradesh", "Tamil Nadu",
+    ],
+    yieldPerHectare: [3, 5],
+    inputCost: "medium",
+    risk: { level: "medium", note: "Fall armyworm and waterlogging." },
+  },
+  {
+    name: "Cotton",
+    family: "Malvaceae",
+    seasons: { india: ["kharif"], temperate: ["spring"] },
+    description: "Long-season fibre crop that does best on deep, moisture-holding soils.",
+    textures: {
+      preferred: ["Clay", "Clay Loam", "Silty Clay"],
+      tolerated: ["Loam", "Sandy Clay Loam", "Silty Clay Loam", "Sandy Clay"],
+    },
+    ph: { optimum: [6.0, 8.0], limits: [5.5, 8.5] },
+    temperature: { optimum: [20, 32], limits: [15, 38] },
+    rainfall: { optimum: [700, 1200], limits: [500, 1800] },
+    ecThreshold: 7.7,
+    durationDays: [150, 180],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: [
+      "Gujarat", "Maharashtra", "Telangana", "Karnataka", "Haryana", "Punjab", "Rajasthan",
+      "Madhya Pradesh", "Andhra Pradesh",
+    ],
+    yieldPerHectare: [1.5, 2.5],
+    inputCost: "high",
+    risk: { level: "high", note: "Pink bollworm, whitefly and rain at picking." },
+  },
+  {
+    name: "Sugarcane",
+    family: "Poaceae",
+    seasons: { india: ["zaid", "rabi"], temperate: ["spring"] },
+    description: "Perennial cane with a long, thirsty growing period.",
+    textures: {
+      preferred: ["Loam", "Clay Loam", "Silty Clay Loam"],
+      tolerated: ["Sandy Loam", "Clay", "Silt Loam", "Sandy Clay Loam"],
+    },
+    ph: { optimum: [6.0, 7.5], limits: [5.0, 8.5] },
+    temperature: { optimum: [24, 34], limits: [15, 40] },
+    rainfall: { optimum: [1100, 1500], limits: [700, 2500] },
+    ecThreshold: 1.7,
+    durationDays: [300, 450],
+    waterNeed: "high",
+    heavyFeeder: true,
+    majorStates: [
+      "Uttar Pradesh", "Maharashtra", "Karnataka", "Tamil Nadu", "Bihar", "Gujarat", "Haryana",
+      "Punjab", "Andhra Pradesh",
+    ],
+    yieldPerHectare: [70, 90],
+    inputCost: "high",
+    risk: { level: "medium", note: "Red rot, and a long wait that ties up the field." },
+  },
+  {
+    name: "Chickpea",
+    family: "Fabaceae",
+    seasons: { india: ["rabi"], temperate: ["spring"] },
+    description: "Drought-hardy pulse that fixes its own nitrogen.",
+    textures: {
+      preferred: ["Loam", "Clay Loam", "Sandy Loam", "Silt Loam"],
+      tolerated: ["Clay", "Sandy Clay Loam", "Silty Clay Loam"],
+    },
+    ph: { optimum: [6.0, 8.0], limits: [5.5, 9.0] },
+    temperature: { optimum: [15, 25], limits: [7, 32] },
+    rainfall: { optimum: [400, 800], limits: [250, 1200] },
+    ecThreshold: 1.0,
+    durationDays: [90, 120],
+    waterNeed: "low",
+    heavyFeeder: false,
+    majorStates: [
+      "Madhya Pradesh", "Maharashtra", "Rajasthan", "Uttar Pradesh", "Karnataka", "Andhra Pradesh",
+      "Gujarat",
+    ],
+    yieldPerHectare: [1, 1.5],
+    inputCost: "low",
+    risk: { level: "medium", note: "Wilt, pod borer and frost at flowering." },
+  },
+  {
+    name: "Pigeon Pea",
+    family: "Fabaceae",
+    seasons: { india: ["kharif"], temperate: ["spring"] },
+    description: "Deep-rooted pulse that tolerates dry spells and fixes nitrogen.",
+    textures: {
+      preferred: ["Loam", "Sandy Loam", "Clay Loam"],
+      tolerated: ["Clay", "Sandy Clay Loam", "Silt Loam"],
+    },
+    ph: { optimum: [5.5, 7.0], limits: [5.0, 8.0] },
+    temperature: { optimum: [20, 30], limits: [12, 38] },
+    rainfall: { optimum: [600, 1000], limits: [400, 1500] },
+    ecThreshold: 1.5,
+    durationDays: [120, 180],
+    waterNeed: "low",
+    heavyFeeder: false,
+    majorStates: [
+      "Maharashtra", "Karnataka", "Madhya Pradesh", "Uttar Pradesh", "Gujarat", "Telangana",
+      "Jharkhand",
+    ],
+    yieldPerHectare: [0.8, 1.2],
+    inputCost: "low",
+    risk: { level: "medium", note: "Pod borer and wilt." },
+  },
+  {
+    name: "Groundnut",
+    family: "Fabaceae",
+    seasons: { india: ["kharif", "zaid"], temperate: ["spring"] },
+    description: "Oilseed legume whose pods form underground, so it needs loose soil.",
+    textures: {
+      preferred: ["Sandy Loam", "Loamy Sand", "Loam"],
+      tolerated: ["Sand", "Sandy Clay Loam", "Silt Loam"],
+    },
+    ph: { optimum: [6.0, 7.0], limits: [5.0, 8.0] },
+    temperature: { optimum: [22, 30], limits: [15, 35] },
+    rainfall: { optimum: [500, 1000], limits: [350, 1500] },
+    ecThreshold: 3.2,
+    durationDays: [100, 130],
+    waterNeed: "medium",
+    heavyFeeder: false,
+    majorStates: ["Gujarat", "Rajasthan", "Tamil Nadu", "Andhra Pradesh", "Karnataka", "Maharashtra"],
+    yieldPerHectare: [1.5, 2.5],
+    inputCost: "medium",
+    risk: { level: "medium", note: "Leaf spot and drought at pegging." },
+  },
+  {
+    name: "Soybean",
+    family: "Fabaceae",
+    seasons: { india: ["kharif"], temperate: ["spring"] },
+    description: "Protein-rich legume that needs steady moisture at flowering.",
+    textures: {
+      preferred: ["Loam", "Silt Loam", "Clay Loam", "Silty Clay Loam"],
+      tolerated: ["Clay", "Sandy Loam", "Sandy Clay Loam", "Silty Clay"],
+    },
+    ph: { optimum: [6.0, 7.0], limits: [5.0, 8.0] },
+    temperature: { optimum: [20, 30], limits: [10, 38] },
+    rainfall: { optimum: [600, 1000], limits: [450, 1500] },
+    ecThreshold: 5.0,
+    durationDays: [90, 120],
+    waterNeed: "medium",
+    heavyFeeder: false,
+    majorStates: ["Madhya Pradesh", "Maharashtra", "Rajasthan", "Karnataka", "Telangana"],
+    yieldPerHectare: [1, 1.5],
+    inputCost: "medium",
+    risk: { level: "medium", note: "Yellow mosaic and rain at harvest." },
+  },
+  {
+    name: "Pearl Millet",
+    family: "Poaceae",
+    seasons: { india: ["kharif", "zaid"], temperate: ["spring", "summer"] },
+    description: "Hardy cereal for hot, dry areas and light soils.",
+    textures: {
+      preferred: ["Sandy Loam", "Loamy Sand", "Sand", "Loam"],
+      tolerated: ["Sandy Clay Loam", "Silt Loam"],
+    },
+    ph: { optimum: [6.0, 7.5], limits: [5.0, 8.5] },
+    temperature: { optimum: [25, 35], limits: [12, 42] },
+    rainfall: { optimum: [350, 650], limits: [200, 1000] },
+    ecThreshold: 4.0,
+    durationDays: [70, 100],
+    waterNeed: "low",
+    heavyFeeder: false,
+    majorStates: ["Rajasthan", "Uttar Pradesh", "Haryana", "Gujarat", "Maharashtra", "Madhya Pradesh"],
+    yieldPerHectare: [1.2, 2],
+    inputCost: "low",
+    risk: { level: "low", note: "Downy mildew and birds." },
+  },
+  {
+    name: "Mustard",
+    family: "Brassicaceae",
+    seasons: { india: ["rabi"], temperate: ["autumn", "spring"] },
+    description: "Cool-season oilseed that gets by on little water.",
+    textures: {
+      preferred: ["Loam", "Sandy Loam", "Clay Loam"],
+      tolerated: ["Silt Loam", "Loamy Sand", "Sandy Clay Loam"],
+    },
+    ph: { optimum: [6.0, 8.0], limits: [5.0, 9.0] },
+    temperature: { optimum: [10, 25], limits: [3, 30] },
+    rainfall: { optimum: [350, 600], limits: [250, 1000] },
+    ecThreshold: 6.0,
+    durationDays: [110, 140],
+    waterNeed: "low",
+    heavyFeeder: false,
+    majorStates: [
+      "Rajasthan", "Uttar Pradesh", "Haryana", "Madhya Pradesh", "West Bengal", "Gujarat", "Assam",
+    ],
+    yieldPerHectare: [1.2, 1.8],
+    inputCost: "low",
+    risk: { level: "low", note: "Aphids and frost." },
+  },
+  {
+    name: "Potato",
+    family: "Solanaceae",
+    seasons: { india: ["rabi"], temperate: ["spring", "summer"] },
+    description: "Tuber crop that needs loose, well-drained soil and cool nights.",
+    textures: {
+      preferred: ["Sandy Loam", "Loam", "Silt Loam"],
+      tolerated: ["Loamy Sand", "Sandy Clay Loam"],
+    },
+    ph: { optimum: [5.0, 6.5], limits: [4.5, 7.5] },
+    temperature: { optimum: [15, 22], limits: [7, 28] },
+    rainfall: { optimum: [500, 800], limits: [300, 1200] },
+    ecThreshold: 1.7,
+    durationDays: [80, 120],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: ["Uttar Pradesh", "West Bengal", "Bihar", "Gujarat", "Madhya Pradesh", "Punjab", "Assam"],
+    yieldPerHectare: [20, 30],
+    inputCost: "high",
+    risk: { level: "medium", note: "Late blight and price swings." },
+  },
+  {
+    name: "Onion",
+    family: "Amaryllidaceae",
+    seasons: { india: ["rabi", "kharif"], temperate: ["spring", "autumn"] },
+    description: "Shallow-rooted bulb crop that needs a fine, weed-free seedbed.",
+    textures: {
+      preferred: ["Loam", "Sandy Loam", "Silt Loam"],
+      tolerated: ["Clay Loam", "Loamy Sand"],
+    },
+    ph: { optimum: [6.0, 7.0], limits: [5.5, 8.0] },
+    temperature: { optimum: [13, 24], limits: [7, 30] },
+    rainfall: { optimum: [350, 750], limits: [250, 1200] },
+    ecThreshold: 1.2,
+    durationDays: [100, 140],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: ["Maharashtra", "Madhya Pradesh", "Karnataka", "Gujarat", "Rajasthan", "Bihar"],
+    yieldPerHectare: [15, 25],
+    inputCost: "medium",
+    risk: { level: "high", note: "Thrips, purple blotch and volatile prices." },
+  },
+  {
+    name: "Tomatoes",
+    family: "Solanaceae",
+    seasons: { india: ["kharif", "rabi"], temperate: ["spring"] },
+    description: "Warm-season fruiting vegetable with a long harvest.",
+    textures: {
+      preferred: ["Loam", "Sandy Loam", "Silt Loam", "Clay Loam"],
+      tolerated: ["Sandy Clay Loam", "Loamy Sand", "Silty Clay Loam"],
+    },
+    ph: { optimum: [6.0, 6.8], limits: [5.5, 7.5] },
+    temperature: { optimum: [18, 27], limits: [10, 32] },
+    rainfall: { optimum: [600, 1300], limits: [400, 1800] },
+    ecThreshold: 2.5,
+    durationDays: [90, 120],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: [
+      "Andhra Pradesh", "Madhya Pradesh", "Karnataka", "Gujarat", "Odisha", "West Bengal",
+      "Maharashtra", "Tamil Nadu",
+    ],
+    yieldPerHectare: [25, 40],
+    inputCost: "high",
+    risk: { level: "high", note: "Blights, leaf curl virus and volatile prices." },
+  },
+  {
+    name: "Carrots",
+    family: "Apiaceae",
+    seasons: { india: ["rabi"], temperate: ["spring", "summer"] },
+    description: "Root vegetable that forks in stony or heavy soil.",
+    textures: {
+      preferred: ["Sandy Loam", "Loamy Sand", "Loam"],
+      tolerated: ["Silt Loam", "Sand"],
+    },
+    ph: { optimum: [6.0, 6.8], limits: [5.5, 7.5] },
+    temperature: { optimum: [16, 24], limits: [7, 30] },
+    rainfall: { optimum: [600, 1200], limits: [400, 1600] },
+    ecThreshold: 1.0,
+    durationDays: [70, 100],
+    waterNeed: "medium",
+    heavyFeeder: false,
+    majorStates: ["Haryana", "Punjab", "Uttar Pradesh", "Karnataka", "Tamil Nadu", "Himachal Pradesh"],
+    yieldPerHectare: [20, 30],
+    inputCost: "medium",
+    risk: { level: "low", note: "Forked roots in heavy or stony soil." },
+  },
+  {
+    name: "Lettuce",
+    family: "Asteraceae",
+    seasons: { india: ["rabi"], temperate: ["spring", "autumn"] },
+    description: "Quick, cool-season leafy crop that bolts in heat.",
+    textures: {
+      preferred: ["Loam", "Silt Loam", "Sandy Loam"],
+      tolerated: ["Clay Loam", "Silt", "Silty Clay Loam"],
+    },
+    ph: { optimum: [6.0, 7.0], limits: [5.5, 7.5] },
+    temperature: { optimum: [13, 22], limits: [5, 28] },
+    rainfall: { optimum: [500, 1200], limits: [300, 1600] },
+    ecThreshold: 1.3,
+    durationDays: [45, 75],
+    waterNeed: "medium",
+    heavyFeeder: false,
+    majorStates: ["Himachal Pradesh", "Karnataka", "Maharashtra", "Uttarakhand"],
+    yieldPerHectare: [15, 25],
+    inputCost: "medium",
+    risk: { level: "medium", note: "Bolting in heat and a short shelf life." },
+  },
+  {
+    name: "Peppers",
+    family: "Solanaceae",
+    seasons: { india: ["kharif", "rabi"], temperate: ["spring"] },
+    description: "Heat-loving fruiting vegetable that dislikes wet roots.",
+    textures: {
+      preferred: ["Sandy Loam", "Loam", "Silt Loam"],
+      tolerated: ["Clay Loam", "Sandy Clay Loam"],
+    },
+    ph: { optimum: [6.0, 6.8], limits: [5.5, 7.5] },
+    temperature: { optimum: [20, 30], limits: [12, 35] },
+    rainfall: { optimum: [600, 1250], limits: [400, 1800] },
+    ecThreshold: 1.5,
+    durationDays: [90, 150],
+    waterNeed: "medium",
+    heavyFeeder: true,
+    majorStates: [
+      "Andhra Pradesh", "Telangana", "Karnataka", "Madhya Pradesh", "Maharashtra", "Odisha",
+      "West Bengal",
+    ],
+    yieldPerHectare: [10, 15],
+    inputCost: "high",
+    risk: { level: "high", note: "Leaf curl, anthracnose and volatile prices." },
+  },
+  {
+    name: "Cabbage",
+    family: "Brassicaceae",
+    seasons: { india: ["rabi"], temperate: ["spring", "summer"] },
+    description: "Cool-season brassica that needs steady moisture for firm heads.",
+    textures: {
+      preferred: ["Clay Loam", "Loam", "Silt Loam", "Silty Clay Loam"],
+      tolerated: ["Clay", "Sandy Clay", "Sandy Loam"],
+    },
+    ph: { optimum: [6.0, 7.5], limits: [5.5, 8.0] },
+    temperature: { optimum: [15, 20], limits: [7, 27] },
+    rainfall: { optimum: [500, 1200], limits: [350, 1600] },
+    ecThreshold: 1.8,
+    durationDays: [90, 120],
+    waterNeed: "high",
+    heavyFeeder: true,
+    majorStates: ["West Bengal", "Odisha", "Madhya Pradesh", "Bihar", "Gujarat", "Assam", "Karnataka"],
+    yieldPerHectare: [25, 40],
+    inputCost: "medium",
+    risk: { level: "medium", note: "Diamondback moth and split heads." },
+  },
+  {
+    name: "Watermelon",
+    family: "Cucurbitaceae",
+    seasons: { india: ["zaid"], temperate: ["spring"] },
+    description: "Sprawling vine with a long taproot that likes warm, light soil.",
+    textures: {
+      preferred: ["Sandy Loam", "Loamy Sand", "Sand"],
+      tolerated: ["Loam"],
+    },
+    ph: { optimum: [6.0, 6.8], limits: [5.0, 7.5] },
+    temperature: { optimum: [22, 30], limits: [15, 35] },
+    rainfall: { optimum: [400, 700], limits: [250, 1200] },
+    ecThreshold: 2.0,
+    durationDays: [80, 110],
+    waterNeed: "medium",
+    heavyFeeder: false,
+    majorStates: [
+      "Uttar Pradesh", "Andhra Pradesh", "Karnataka", "Tamil Nadu", "Odisha", "West Bengal",
+      "Madhya Pradesh",
+    ],
+    yieldPerHectare: [25, 40],
+    inputCost: "medium",
+    risk: { level: "medium", note: "Fruit fly, wilt and gluts at harvest." },
+  },
+];
+
+export function getCropProfile(name: string) {
+  return CROP_KNOWLEDGE.find((crop) => crop.name === name);
+}
@@ -0,0 +1,81 @@
+import { ROTATION_YEARS, type FieldPlan, type RotationSlot } from "@/lib/crops/rotation";
+import type { CropSuggestion } from "@/lib/soil/types";
+
+/**
+ * A field as stored: crops keyed by `RotationSlot.key`, so each stays on its
+ * season and year as windows close and the grid moves on. Crops in seasons
+ * that have passed, or in another calendar, are kept but not shown.
+ */
+export interface PlannedField {
+  id: string;
+  name: string;
+  crops: Record<string, string>;
+}
+
+/** The user's saved crops and rotation plan, kept apart from the current suggestions. */
+export interface CropPlans {
+  /** Snapshots of the crops as suggested when they were saved. */
+  savedCrops: CropSuggestion[];
+  years: number;
+  fields: PlannedField[];
+}
+
+// Bump the version when the stored shape changes; older plans are then dropped
+const STORAGE_KEY = "soil-analyzer:crop-plans:v2";
+
+export function newField(index: number): PlannedField {
+  return { id: `field-${Date.now()}-${index}`, name: `Field ${index}`, crops: {} };
+}
+
+export function emptyCropPlans(): CropPlans {
+  return { savedCrops: [], years: ROTATION_YEARS[0], fields: [newField(1)] };
+}
+
+/** The field laid over the current slots, for the rotation checks. */
+export function fieldOnSlots(field: PlannedField, slots: RotationSlot[]): FieldPlan {
+  return { id: field.id, name: field.name, crops: slots.map((slot) => field.crops[slot.key] ?? null) };
+}
+
+/** The field with a crop placed in a slot, or the slot cleared when `crop` is null. */
+export function placeCrop(field: PlannedField, slot: RotationSlot, crop: string | null): PlannedField {
+  const crops = { ...field.crops };
+  if (crop) crops[slot.key] = crop;
+  else delete crops[slot.key];
+  return { ...field, crops };
+}
+
+/** Whether any field has a crop placed on it. */
+export function hasPlannedCrops(fields: PlannedField[]) {
+  return fields.some((field) => Object.keys(field.crops).length > 0);
+}
+
+function isPlannedField(value: unknown): value is PlannedField {
+  const field = value as PlannedField;
+  return typeof field?.id === "string" && typeof field.name === "string"
+    && typeof field.crops === "object" && field.crops !== null && !Array.isArray(field.crops);
+}
+
+/** Plans stored in this browser, or empty ones when there are none or they can't be read. */
+export function loadCropPlans(): CropPlans {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<CropPlans> | null;
+    if (!stored) return emptyCropPlans();
+    const fields = Array.isArray(stored.fields) ? stored.fields.filter(isPlannedField) : [];
+    return {
+      savedCrops: Array.isArray(stored.savedCrops) ? stored.savedCrops.filter((crop) => typeof crop?.name === "string") : [],
+      years: ROTATION_YEARS.find((option) => option === stored.years) ?? ROTATION_YEARS[0],
+      fields: fields.length > 0 ? fields : [newField(1)],
+    };
+  } catch {
+    return emptyCropPlans();
+  }
+}
+
+/** Stores the plans in this browser; quietly does nothing when storage is unavailable or full. */
+export function storeCropPlans(plans: CropPlans) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(plans));
+  } catch {
+    // Private browsing or a full quota; the plans still last for the session
+  }
+}
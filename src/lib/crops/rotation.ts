@@ -0,0 +1,240 @@
+import { cropSeasons, parseWindowDate, seasonSequence } from "@/lib/crops/calendar";
+import { CROP_KNOWLEDGE, getCropProfile, type CropFamily, type CropProfile } from "@/lib/crops/knowledge";
+import type { CroppingSeason, LocationData } from "@/lib/soil/types";
+
+// Plan lengths offered, in years
+export const ROTATION_YEARS = [2, 3] as const;
+
+// Common names for the families, for messages
+const FAMILY_NAMES: Record<CropFamily, string> = {
+  Poaceae: "cereals",
+  Fabaceae: "legumes",
+  Solanaceae: "nightshades",
+  Brassicaceae: "brassicas",
+  Cucurbitaceae: "cucurbits",
+  Amaryllidaceae: "alliums",
+  Apiaceae: "umbellifers",
+  Asteraceae: "daisy family",
+  Malvaceae: "mallows",
+};
+
+// Families whose soil-borne pests and diseases need a full year's break
+const DISEASE_PRONE: CropFamily[] = ["Solanaceae", "Brassicaceae", "Cucurbitaceae", "Amaryllidaceae"];
+// A field should carry a legume at least once in this many years
+const LEGUME_BREAK_YEARS = 2;
+
+export interface RotationSlot {
+  season: CroppingSeason;
+  /** "Rabi 2026". */
+  label: string;
+  /** "rabi-2026"; names the same season as the grid moves on, for storing plans. */
+  key: string;
+  /** 1 for the first year of the plan. */
+  year: number;
+}
+
+/** One field's plan on the current slots: a crop name for each slot it is sown in, null elsewhere. */
+export interface FieldPlan {
+  id: string;
+  name: string;
+  crops: (string | null)[];
+}
+
+/** What a slot holds: a crop sown there, one still growing from earlier, or nothing. */
+export type SlotOccupancy = { crop: CropProfile; sown: boolean } | null;
+
+export type RotationRule = "family" | "legume" | "nutrients" | "overlap";
+
+export interface RotationIssue {
+  rule: RotationRule;
+  /** The slot of the crop the issue is about. */
+  slot: number;
+  severity: "warning" | "caution";
+  message: string;
+}
+
+export interface RotationSuggestion {
+  slot: number;
+  crop: string;
+  /** The crop it replaces, if the slot already has one. */
+  replaces: string | null;
+  reason: string;
+}
+
+/** The plan's slots: each local season in turn, starting with the one that opens next. */
+export function rotationSlots(location: LocationData | null | undefined, years: number, date = new Date()): RotationSlot[] {
+  const seasons = seasonSequence(location, date);
+  return Array.from({ length: seasons.length * years }, (_, i) => {
+    const window = seasons[i % seasons.length];
+    const yearOffset = Math.floor(i / seasons.length);
+    const opens = parseWindowDate(window.start).getFullYear() + yearOffset;
+    return {
+      season: window.season,
+      label: `${window.name} ${opens}`,
+      key: `${window.season}-${opens}`,
+      year: yearOffset + 1,
+    };
+  });
+}
+
+/** Slots a crop stays in the ground for, from its shortest duration. */
+function slotsOccupied(crop: CropProfile, slotsPerYear: number) {
+  return Math.max(1, Math.ceil(crop.durationDays[0] / (365 / slotsPerYear)));
+}
+
+/** What each slot of a field holds, with long crops carried into the slots after sowing. */
+export function fieldOccupancy(plan: FieldPlan, slotsPerYear: number): SlotOccupancy[] {
+  const occupancy: SlotOccupancy[] = plan.crops.map(() => null);
+  plan.crops.forEach((name, slot) => {
+    const crop = name ? getCropProfile(name) : undefined;
+    if (!crop) return;
+    occupancy[slot] = { crop, sown: true };
+    for (let next = slot + 1; next < Math.min(slot + slotsOccupied(crop, slotsPerYear), occupancy.length); next++) {
+      if (!occupancy[next]) occupancy[next] = { crop, sown: false };
+    }
+  });
+  return occupancy;
+}
+
+/**
+ * Checks a field's sequence against the rotation rules: the same family
+ * back to back, or within a year for disease-prone families; a heavy feeder
+ * straight after another; two years without a legume; and crops sown while
+ * an earlier one is still in the ground.
+ */
+export function checkRotation(plan: FieldPlan, slotsPerYear: number): RotationIssue[] {
+  const issues: RotationIssue[] = [];
+  const sown = plan.crops
+    .map((name, slot) => ({ slot, crop: name ? getCropProfile(name) : undefined }))
+    .filter((entry): entry is { slot: number; crop: CropProfile } => entry.crop !== undefined);
+
+  sown.forEach(({ slot, crop }, i) => {
+    const previous = sown[i - 1];
+    if (!previous) return;
+    const gap = slot - previous.slot;
+
+    if (gap < slotsOccupied(previous.crop, slotsPerYear)) {
+      issues.push({
+        rule: "overlap",
+        slot,
+        severity: "warning",
+        message: `${previous.crop.name} is still in the ground when ${crop.name} would be sown.`,
+      });
+    }
+
+    const family = FAMILY_NAMES[crop.family];
+    const lastOfFamily = sown.slice(0, i).reverse().find((entry) => entry.crop.family === crop.family);
+    if (DISEASE_PRONE.includes(crop.family) && lastOfFamily && slot - lastOfFamily.slot < slotsPerYear) {
+      issues.push({
+        rule: "family",
+        slot,
+        severity: "warning",
+        message: `${crop.name} follows ${lastOfFamily.crop.name} within a year; ${family} share soil-borne pests and diseases and need a year's break.`,
+      });
+    } else if (previous.crop.family === crop.family) {
+      issues.push({
+        rule: "family",
+        slot,
+        severity: "caution",
+        message: `${crop.name} follows ${previous.crop.name}, both ${family}; alternate families to break pest and weed cycles.`,
+      });
+    }
+
+    // A fallow season in between lets the soil recover
+    if (crop.heavyFeeder && previous.crop.heavyFeeder && gap <= slotsOccupied(previous.crop, slotsPerYear)) {
+      issues.push({
+        rule: "nutrients",
+        slot,
+        severity: "caution",
+        message: `${crop.name} follows ${previous.crop.name}, two heavy feeders in a row; expect depleted nitrogen and extra fertiliser costs.`,
+      });
+    }
+  });
+
+  // Every run of two years with at least three crops needs a legume somewhere
+  const window = LEGUME_BREAK_YEARS * slotsPerYear;
+  for (let start = 0; start + window <= plan.crops.length; start += slotsPerYear) {
+    const inWindow = sown.filter((entry) => entry.slot >= start && entry.slot < start + window);
+    if (inWindow.length >= 3 && !inWindow.some((entry) => entry.crop.family === "Fabaceae")) {
+      issues.push({
+        rule: "legume",
+        slot: inWindow[inWindow.length - 1].slot,
+        severity: "warning",
+        message: `No legume in ${LEGUME_BREAK_YEARS} years; add a pulse or groundnut to rebuild soil nitrogen.`,
+      });
+      break;
+    }
+  }
+
+  return issues.sort((a, b) => a.slot - b.slot);
+}
+
+function describeChoice(crop: CropProfile, previous: CropProfile | undefined, fixed: RotationIssue[]) {
+  const parts: string[] = [];
+  if (crop.family === "Fabaceae") parts.push("it is a legume and fixes its own nitrogen");
+  if (previous && previous.family !== crop.family) {
+    parts.push(`it swaps ${FAMILY_NAMES[previous.family]} for ${FAMILY_NAMES[crop.family]}`);
+  }
+  if (previous?.heavyFeeder && !crop.heavyFeeder) parts.push(`it is a light feeder after ${previous.name}`);
+  const reason = parts.length > 0 ? `${crop.name} fits here: ${parts.join(", ")}.` : `${crop.name} fits here.`;
+  return fixed.length > 0 ? `${reason} It clears ${fixed.length} rotation issue${fixed.length === 1 ? "" : "s"}.` : reason;
+}
+
+/**
+ * A better crop for the field: a replacement for the first slot with a
+ * rotation issue, or else a crop for the first free slot after the last
+ * one sown. Candidates must suit the slot's season; saved crops and
+ * better suitability win ties.
+ */
+export function suggestNextCrop(
+  plan: FieldPlan,
+  slots: RotationSlot[],
+  location: LocationData | null | undefined,
+  preferences: { saved?: string[]; suitability?: Record<string, number> } = {}
+): RotationSuggestion | null {
+  const slotsPerYear = slots.filter((slot) => slot.year === 1).length;
+  const issues = checkRotation(plan, slotsPerYear);
+  const occupancy = fieldOccupancy(plan, slotsPerYear);
+  // An overlap is fixed by moving a crop, not by swapping in another
+  const fixable = issues.find((issue) => issue.rule !== "overlap");
+
+  let target: number;
+  if (fixable) {
+    target = fixable.slot;
+  } else {
+    const lastSown = plan.crops.reduce((last, name, slot) => (name ? slot : last), -1);
+    if (lastSown < 0) return null;
+    target = occupancy.findIndex((entry, slot) => slot > lastSown && entry === null);
+    if (target < 0) return null;
+  }
+
+  const previous = plan.crops.slice(0, target).reverse().find(Boolean);
+  const previousCrop = previous ? getCropProfile(previous) : undefined;
+  const saved = preferences.saved ?? [];
+  const suitability = preferences.suitability ?? {};
+
+  const candidates = CROP_KNOWLEDGE
+    .filter((crop) => crop.name !== plan.crops[target])
+    .filter((crop) => cropSeasons(crop, location).includes(slots[target].season))
+    .map((crop) => {
+      const crops = plan.crops.map((name, slot) => (slot === target ? crop.name : name));
+      const remaining = checkRotation({ ...plan, crops }, slotsPerYear);
+      const fixed = issues.filter((issue) => !remaining.some((other) => other.rule === issue.rule && other.slot === issue.slot));
+      return { crop, remaining: remaining.length, fixed };
+    })
+    .sort((a, b) =>
+      a.remaining - b.remaining
+      || Number(saved.includes(b.crop.name)) - Number(saved.includes(a.crop.name))
+      || (suitability[b.crop.name] ?? 0) - (suitability[a.crop.name] ?? 0)
+    );
+
+  const best = candidates[0];
+  // It must leave fewer issues than the plan has now, and add none to a clean plan
+  if (!best || best.remaining >= Math.max(issues.length, 1)) return null;
+  return {
+    slot: target,
+    crop: best.crop.name,
+    replaces: plan.crops[target],
+    reason: describeChoice(best.crop, previousCrop, best.fixed),
+  };
+}
@@ -0,0 +1,112 @@
+import { isComingWindow } from "@/lib/crops/calendar";
+import { irrigationAdvice } from "@/lib/crops/irrigation";
+import { CROP_KNOWLEDGE, type CropProfile } from "@/lib/crops/knowledge";
+import { assessCrop, type SiteConditions } from "@/lib/crops/suitability";
+import { KNOWLEDGE_BASE_VERSION, hashInputs } from "@/lib/soil/provenance";
+import type { CropSuggestion, SoilResult, SuitabilityFactor } from "@/lib/soil/types";
+
+// Below this a crop is not worth suggesting
+const MIN_SUITABILITY = 60;
+
+/** The first factor the crop is fully suited to, texture first, or else the texture note. */
+function strongestReason(factors: SuitabilityFactor[]) {
+  return (factors.find((factor) => factor.score === 100) ?? factors[0]).note;
+}
+
+function suggestCrop(crop: CropProfile, soil: SoilResult, site: SiteConditions): CropSuggestion {
+  const { suitability, factors, sowingWindow } = assessCrop(crop, soil, site);
+  const concerns = factors
+    .filter((factor) => factor.score !== null && factor.score < 100)
+    .map((factor) => factor.note);
+  const [minDays, maxDays] = crop.durationDays;
+  return {
+    name: crop.name,
+    suitability,
+    season: sowingWindow?.name ?? "Not grown locally",
+    reason: strongestReason(factors),
+    details: [crop.description, `Ready to harvest in ${minDays}–${maxDays} days.`, ...concerns].join(" "),
+    factors,
+    durationDays: crop.durationDays,
+    sowingWindow,
+    waterNeed: crop.waterNeed,
+    irrigation: irrigationAdvice(soil.type, crop.waterNeed, {
+      moisture: soil.moisture,
+      organicMatter: soil.organicMatter,
+      weather: site.weather ?? undefined,
+    }),
+  };
+}
+
+/**
+ * Crops from the knowledge base scored against the sample, the weather and
+ * the location. Crops that can be sown in the coming window come first, each
+ * group best match first; crops scoring below the cut-off are left out.
+ */
+export function cropsForSoil(soil: SoilResult, site: SiteConditions = {}): CropSuggestion[] {
+  const comingFirst = (crop: CropSuggestion) => (isComingWindow(crop.sowingWindow) ? 0 : 1);
+  return CROP_KNOWLEDGE
+    .map((crop) => suggestCrop(crop, soil, site))
+    .filter((crop) => crop.suitability >= MIN_SUITABILITY)
+    .sort((a, b) => comingFirst(a) - comingFirst(b) || b.suitability - a.suitability);
+}
+
+// Id and version of the rules that rank crops, recorded with every suggestion
+const CROP_ENGINE_ID = "crop-rules";
+const CROP_ENGINE_VERSION = "2.3.0";
+
+/**
+ * `cropsForSoil` for an analysed sample, with the provenance of the
+ * suggestions attached. Their input hash builds on the soil result's own.
+ */
+export async function recommendCrops(soil: SoilResult, site: SiteConditions = {}): Promise<CropSuggestion[]> {
+  // Fixed once so the hash records the day the sowing windows were worked out from
+  const date = site.date ?? new Date();
+  const provenance = {
+    provider: CROP_ENGINE_ID,
+    version: CROP_ENGINE_VERSION,
+    knowledgeBase: KNOWLEDGE_BASE_VERSION,
+    inputHash: await hashInputs(null, {
+      soil: soil.provenance?.inputHash,
+      type: soil.type,
+      alternatives: soil.alternatives,
+      lab: soil.lab,
+      moisture: soil.moisture,
+      organicMatter: soil.organicMatter,
+      weather: site.weather,
+      location: site.location && { lat: site.location.lat, lng: site.location.lng, state: site.location.state },
+      date: date.toISOString().slice(0, 10),
+    }),
+  };
+  return cropsForSoil(soil, { ...site, date }).map((crop) => ({ ...crop, provenance }));
+}
+
+// A runner-up scoring this share is a realistic reading of the sample
+const CONFLICT_PROBABILITY = 0.2;
+
+export interface RecommendationConflict {
+  alternativeType: string;
+  probability: number;
+  /** Suggested for the top class but not suited to the runner-up. */
+  onlyForTop: string[];
+  /** Suited to the runner-up but not suggested for the top class. */
+  onlyForAlternative: string[];
+}
+
+/**
+ * Checks whether the runner-up soil class is likely enough, and different
+ * enough in its crop list, that the suggestions could be wrong.
+ */
+export function findRecommendationConflict(soil: SoilResult, site: SiteConditions = {}): RecommendationConflict | null {
+  const runnerUp = soil.alternatives[0];
+  if (!runnerUp || runnerUp.probability < CONFLICT_PROBABILITY) return null;
+
+  // Each class is scored as if it were certain
+  const asClass = (type: string) => ({ ...soil, type, confidence: 100, alternatives: [] });
+  const top = cropsForSoil(asClass(soil.type), site).map((crop) => crop.name);
+  const alternative = cropsForSoil(asClass(runnerUp.type), site).map((crop) => crop.name);
+  const onlyForTop = top.filter((name) => !alternative.includes(name));
+  const onlyForAlternative = alternative.filter((name) => !top.includes(name));
+
+  if (onlyForTop.length === 0 && onlyForAlternative.length === 0) return null;
+  return { alternativeType: runnerUp.type, probability: runnerUp.probability, onlyForTop, onlyForAlternative };
+}
@@ -0,0 +1,332 @@
+import { formatSowingWindow, isComingWindow, parseWindowDate, sowingWindows } from "@/lib/crops/calendar";
+import { annualRainfall } from "@/lib/crops/climate";
+import { SOAKING_RAIN } from "@/lib/crops/irrigation";
+import type { CropProfile, Tolerance } from "@/lib/crops/knowledge";
+import { certaintyLabel } from "@/lib/soil/condition";
+import { indianState } from "@/lib/soil/india";
+import type {
+  LocationData,
+  SoilResult,
+  SowingWindow,
+  SuitabilityFactor,
+  SuitabilityFactorId,
+  WeatherData,
+} from "@/lib/soil/types";
+
+/** Where the crop would be grown, beyond the soil sample itself. */
+export interface SiteConditions {
+  weather?: WeatherData | null;
+  location?: LocationData | null;
+  /** When the crop would be sown; defaults to today. */
+  date?: Date;
+}
+
+// How much each factor counts towards the overall score
+const FACTOR_WEIGHTS: Record<SuitabilityFactorId, number> = {
+  texture: 3,
+  ph: 2,
+  salinity: 2,
+  temperature: 2,
+  rainfall: 1.5,
+  organicMatter: 1,
+  season: 1.5,
+  localPractice: 1,
+};
+
+// Texture scores for classes a crop tolerates and does not suit at all
+const TOLERATED_TEXTURE_SCORE = 70;
+const UNSUITED_TEXTURE_SCORE = 20;
+// Yield lost per dS/m above the salinity threshold, in percent (Maas–Hoffman)
+const SALINITY_SLOPE = 10;
+// Short rainfall can be made up by irrigation, and heavy rainfall worked
+// around by sowing in the drier months, so neither scores below these
+const IRRIGABLE_RAINFALL_SCORE = 50;
+const EXCESS_RAINFALL_SCORE = 40;
+// Points a heavy feeder, or any other crop, loses on soil sure to be low in organic matter
+const HEAVY_FEEDER_PENALTY = 40;
+const LIGHT_FEEDER_PENALTY = 15;
+// A crop not widely grown in the state scores this for local practice
+const UNCOMMON_CROP_SCORE = 70;
+// The season score falls from 100 for an open window to this for one this many days off
+const DISTANT_WINDOW_SCORE = 40;
+const DISTANT_WINDOW_DAYS = 120;
+// The overall score can be at most this far above the weakest factor
+export const LIMITING_FACTOR_MARGIN = 25;
+
+function formatBand([min, max]: [number, number], digits = 0) {
+  return `${min.toFixed(digits)}–${max.toFixed(digits)}`;
+}
+
+/** 100 inside the optimum, falling linearly to 0 at the limits. */
+function toleranceScore(value: number, { optimum, limits }: Tolerance) {
+  if (value >= optimum[0] && value <= optimum[1]) return 100;
+  if (value <= limits[0] || value >= limits[1]) return 0;
+  const [edge, limit] = value < optimum[0] ? [optimum[0], limits[0]] : [optimum[1], limits[1]];
+  return Math.round((100 * (value - limit)) / (edge - limit));
+}
+
+function position(value: number, { optimum }: Tolerance) {
+  return value < optimum[0] ? "below" : value > optimum[1] ? "above" : "within";
+}
+
+function textureClassScore(crop: CropProfile, type: string) {
+  if (crop.textures.preferred.includes(type)) return 100;
+  if (crop.textures.tolerated.includes(type)) return TOLERATED_TEXTURE_SCORE;
+  return UNSUITED_TEXTURE_SCORE;
+}
+
+/**
+ * Texture score averaged over the likely classes, so an uncertain reading
+ * is not scored as if it were sure.
+ */
+function textureFactor(crop: CropProfile, soil: SoilResult): SuitabilityFactor {
+  const classes = [{ type: soil.type, weight: soil.confidence / 100 }]
+    .concat(soil.alternatives.map((alt) => ({ type: alt.type, weight: alt.probability })))
+    .filter((item) => item.weight > 0);
+  const total = classes.reduce((sum, item) => sum + item.weight, 0);
+  const score = total > 0
+    ? Math.round(classes.reduce((sum, item) => sum + item.weight * textureClassScore(crop, item.type), 0) / total)
+    : textureClassScore(crop, soil.type);
+
+  const own = textureClassScore(crop, soil.type);
+  const note = own === 100
+    ? `${soil.type} is one of its preferred soils.`
+    : own === TOLERATED_TEXTURE_SCORE
+      ? `${soil.type} is workable but not ideal for it.`
+      : `${soil.type} does not suit it.`;
+  return {
+    id: "texture",
+    label: "Soil texture",
+    observed: soil.type,
+    preferred: crop.textures.preferred.join(", "),
+    score,
+    impact: 0,
+    note: score !== own ? `${note.slice(0, -1)}, allowing for the chance the soil is another class.` : note,
+  };
+}
+
+function phFactor(crop: CropProfile, soil: SoilResult): SuitabilityFactor {
+  const ph = soil.lab?.ph;
+  const preferred = formatBand(crop.ph.optimum, 1);
+  if (ph === undefined) {
+    return { id: "ph", label: "pH", observed: "Not measured", preferred, score: null, impact: 0, note: "Soil pH needs a lab test or test kit." };
+  }
+  return {
+    id: "ph",
+    label: "pH",
+    observed: ph.toFixed(1),
+    preferred,
+    score: toleranceScore(ph, crop.ph),
+    impact: 0,
+    note: `Soil pH ${ph} is ${position(ph, crop.ph)} its ${preferred} optimum.`,
+  };
+}
+
+function salinityFactor(crop: CropProfile, soil: SoilResult): SuitabilityFactor {
+  const ec = soil.lab?.ec;
+  const preferred = `≤ ${crop.ecThreshold} dS/m`;
+  if (ec === undefined) {
+    return { id: "salinity", label: "Salinity (EC)", observed: "Not measured", preferred, score: null, impact: 0, note: "Salinity needs an EC measurement." };
+  }
+  const exceeds = ec > crop.ecThreshold;
+  return {
+    id: "salinity",
+    label: "Salinity (EC)",
+    observed: `${ec} dS/m`,
+    preferred,
+    score: exceeds ? Math.max(0, Math.round(100 - (ec - crop.ecThreshold) * SALINITY_SLOPE)) : 100,
+    impact: 0,
+    note: exceeds
+      ? `Salinity (EC ${ec} dS/m) exceeds its ${crop.ecThreshold} dS/m tolerance.`
+      : `Salinity (EC ${ec} dS/m) is within its ${crop.ecThreshold} dS/m tolerance.`,
+  };
+}
+
+/**
+ * Today's temperature against the crop's range. It says little about a
+ * window months away, so it is only assessed for the coming one.
+ */
+function temperatureFactor(
+  crop: CropProfile,
+  weather: WeatherData | null | undefined,
+  window: SowingWindow | undefined
+): SuitabilityFactor {
+  const preferred = `${formatBand(crop.temperature.optimum)}°C`;
+  if (!weather) {
+    return { id: "temperature", label: "Temperature", observed: "Unknown", preferred, score: null, impact: 0, note: "Fetch the weather to check temperature." };
+  }
+  const { temperature } = weather;
+  if (window && !isComingWindow(window)) {
+    return {
+      id: "temperature",
+      label: "Temperature",
+      observed: `${temperature}°C now`,
+      preferred,
+      score: null,
+      impact: 0,
+      note: `Today's weather says little about conditions when ${window.name.toLowerCase()} sowing opens.`,
+    };
+  }
+  const where = position(temperature, crop.temperature);
+  return {
+    id: "temperature",
+    label: "Temperature",
+    observed: `${temperature}°C`,
+    preferred,
+    score: toleranceScore(temperature, crop.temperature),
+    impact: 0,
+    note: where === "within"
+      ? `Current ${temperature}°C is within its ${preferred} range.`
+      : `Current ${temperature}°C is too ${where === "below" ? "cool" : "hot"} for its ${preferred} range.`,
+  };
+}
+
+/**
+ * Scores the long-term rainfall against the crop's needs. Today's rain is
+ * too short a record to score, but is noted when sowing is open.
+ */
+function rainfallFactor(
+  crop: CropProfile,
+  location: LocationData | null | undefined,
+  weather: WeatherData | null | undefined,
+  window: SowingWindow | undefined
+): SuitabilityFactor {
+  const preferred = `${formatBand(crop.rainfall.optimum)} mm/yr`;
+  const rainToday = weather && weather.precipitation >= SOAKING_RAIN && window?.opensInDays === 0
+    ? ` Today's ${weather.precipitation} mm of rain has wetted the seedbed for sowing.`
+    : "";
+  const rainfall = annualRainfall(location);
+  if (!rainfall) {
+    return { id: "rainfall", label: "Rainfall", observed: "Unknown", preferred, score: null, impact: 0, note: `No rainfall normals for this location.${rainToday}` };
+  }
+  const { annual, region } = rainfall;
+  const where = position(annual, crop.rainfall);
+  const score = toleranceScore(annual, crop.rainfall);
+  return {
+    id: "rainfall",
+    label: "Rainfall",
+    observed: `${annual} mm/yr`,
+    preferred,
+    score: Math.max(score, where === "below" ? IRRIGABLE_RAINFALL_SCORE : EXCESS_RAINFALL_SCORE),
+    impact: 0,
+    note: (where === "within"
+      ? `About ${annual} mm of rain a year in ${region} is within its ${preferred} range.`
+      : where === "below"
+        ? `About ${annual} mm of rain a year in ${region} is short of its ${preferred} range; plan for irrigation.`
+        : `About ${annual} mm of rain a year in ${region} is more than it needs; sow in the drier months and make sure the field drains.`) + rainToday,
+  };
+}
+
+/** Docks crops on soil that looks low in organic matter, scaled by how sure the estimate is. */
+function organicMatterFactor(crop: CropProfile, soil: SoilResult): SuitabilityFactor {
+  const preferred = crop.heavyFeeder ? "Medium or high" : "Any";
+  const organicMatter = soil.organicMatter;
+  if (!organicMatter) {
+    return { id: "organicMatter", label: "Organic matter", observed: "Unknown", preferred, score: null, impact: 0, note: "Organic matter was not estimated." };
+  }
+  const observed = `${organicMatter.band[0].toUpperCase()}${organicMatter.band.slice(1)}`;
+  if (organicMatter.band !== "low") {
+    return { id: "organicMatter", label: "Organic matter", observed, preferred, score: 100, impact: 0, note: `Organic matter is ${organicMatter.band}.` };
+  }
+  const penalty = crop.heavyFeeder ? HEAVY_FEEDER_PENALTY : LIGHT_FEEDER_PENALTY;
+  const measured = organicMatter.source === "lab";
+  return {
+    id: "organicMatter",
+    label: "Organic matter",
+    observed,
+    preferred,
+    score: Math.round(100 - (penalty * organicMatter.confidence) / 100),
+    impact: 0,
+    note: `Organic matter ${measured ? "is" : "looks"} low (${certaintyLabel(organicMatter).toLowerCase()}); work in compost or manure before planting.`,
+  };
+}
+
+/** How soon the crop's next sowing window in the local calendar opens. */
+function seasonFactor(crop: CropProfile, window: SowingWindow | undefined): SuitabilityFactor {
+  if (!window) {
+    return { id: "season", label: "Season", observed: "No window", preferred: "—", score: null, impact: 0, note: "It has no sowing season in the local calendar." };
+  }
+  const dates = formatSowingWindow(window);
+  const closes = parseWindowDate(window.end).toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+  const days = Math.min(window.opensInDays, DISTANT_WINDOW_DAYS);
+  return {
+    id: "season",
+    label: "Season",
+    observed: window.opensInDays === 0 ? "Sowing now" : `Opens in ${window.opensInDays} days`,
+    preferred: `${window.name}, ${dates}`,
+    score: Math.round(100 - ((100 - DISTANT_WINDOW_SCORE) * days) / DISTANT_WINDOW_DAYS),
+    impact: 0,
+    note: window.opensInDays === 0
+      ? `${window.name} sowing is open until ${closes}.`
+      : `${window.name} sowing opens in ${window.opensInDays} days (${dates}).`,
+  };
+}
+
+function localPracticeFactor(crop: CropProfile, location: LocationData | null | undefined): SuitabilityFactor {
+  const state = indianState(location)?.name;
+  const preferred = "A major crop locally";
+  if (!state) {
+    return { id: "localPractice", label: "Local practice", observed: "Unknown", preferred, score: null, impact: 0, note: "No crop statistics for this region." };
+  }
+  const common = crop.majorStates.includes(state);
+  return {
+    id: "localPractice",
+    label: "Local practice",
+    observed: common ? `Widely grown in ${state}` : `Uncommon in ${state}`,
+    preferred,
+    score: common ? 100 : UNCOMMON_CROP_SCORE,
+    impact: 0,
+    note: common
+      ? `It is a major crop in ${state}, so seed, advice and buyers are close at hand.`
+      : `It is not a major crop in ${state}; check for seed, local advice and buyers first.`,
+  };
+}
+
+export interface CropAssessment {
+  suitability: number;
+  factors: SuitabilityFactor[];
+  /** The next sowing window in the local calendar, if the crop has one. */
+  sowingWindow?: SowingWindow;
+}
+
+/**
+ * Scores a crop against the sample and site. The total is the weighted mean
+ * of the factors that could be assessed, held close to the weakest one so a
+ * single bad factor is not averaged away. Each factor's impact is its
+ * weighted shortfall from 100; the weakest also carries whatever the hold
+ * took off, so the impacts add up to the total's shortfall.
+ */
+export function assessCrop(crop: CropProfile, soil: SoilResult, site: SiteConditions = {}): CropAssessment {
+  const [sowingWindow] = sowingWindows(crop, site.location, site.date);
+  const factors = [
+    textureFactor(crop, soil),
+    phFactor(crop, soil),
+    salinityFactor(crop, soil),
+    temperatureFactor(crop, site.weather, sowingWindow),
+    rainfallFactor(crop, site.location, site.weather, sowingWindow),
+    organicMatterFactor(crop, soil),
+    seasonFactor(crop, sowingWindow),
+    localPracticeFactor(crop, site.location),
+  ];
+
+  const assessed = factors.filter((factor): factor is SuitabilityFactor & { score: number } => factor.score !== null);
+  const weight = assessed.reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor.id], 0);
+  const mean = assessed.reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor.id] * factor.score, 0) / weight;
+  const weakest = limitingFactor(assessed);
+  const suitability = weakest ? Math.min(mean, weakest.score! + LIMITING_FACTOR_MARGIN) : mean;
+
+  for (const factor of assessed) {
+    const shortfall = (FACTOR_WEIGHTS[factor.id] * (factor.score - 100)) / weight;
+    factor.impact = Math.round(shortfall - (factor === weakest ? mean - suitability : 0));
+  }
+
+  return { suitability: Math.round(suitability), factors, sowingWindow };
+}
+
+/** The assessed factor holding the score down most, if any falls short. */
+export function limitingFactor(factors: SuitabilityFactor[]) {
+  return factors.reduce<SuitabilityFactor | null>(
+    (worst, factor) => factor.score !== null && factor.score < 100 && (!worst || factor.score < worst.score!) ? factor : worst,
+    null
+  );
+}
@@ -0,0 +1,79 @@
+import { hexToRgb, labToMunsell, rgbToHex, rgbToLab } from "@/lib/soil/color";
+import { classifyTexture } from "@/lib/soil/classifier";
+import { estimateSoilCondition } from "@/lib/soil/condition";
+import { toTriangle } from "@/lib/soil/texture";
+import type { SoilResult } from "@/lib/soil/types";
+
+// Enough spots to represent a field without making analysis slow on a phone
+export const MAX_SAMPLE_IMAGES = 6;
+
+export interface NamedSoilResult {
+  name: string;
+  result: SoilResult;
+}
+
+function mean(values: number[]) {
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+}
+
+/**
+ * Combines the results for several images of one sample. The composition is
+ * the mean of the images' estimates; its uncertainty adds how far the images
+ * spread on the triangle to their own uncertainty, so images that disagree
+ * lower the confidence instead of averaging it away. Agreement is the share
+ * of images whose own class matches the combined one.
+ */
+export function aggregateSoilResults(items: NamedSoilResult[]): SoilResult {
+  if (items.length === 0) throw new Error("No results to aggregate");
+  if (items.length === 1) return items[0].result;
+
+  const results = items.map((item) => item.result);
+  const sand = Math.round(mean(results.map((r) => r.texture.sand)));
+  const clay = Math.round(mean(results.map((r) => r.texture.clay)));
+
+  const center = toTriangle([sand, clay]);
+  const spread = Math.sqrt(
+    mean(
+      results.map((r) => {
+        const [x, y] = toTriangle([r.texture.sand, r.texture.clay]);
+        return (x - center[0]) ** 2 + (y - center[1]) ** 2;
+      })
+    )
+  );
+  // Images of one sample share lighting and camera, so their own errors are
+  // not independent and are not reduced by the number of images
+  const own = Math.sqrt(mean(results.map((r) => r.texture.uncertainty ** 2)));
+  const uncertainty = Math.round(Math.sqrt(own ** 2 + spread ** 2) * 10) / 10;
+
+  const classified = classifyTexture({ sand, silt: 100 - sand - clay, clay, uncertainty });
+  // Results computed from a photo always carry its colour
+  const rgb = results.map((r) => hexToRgb(r.color!));
+  const color = {
+    r: Math.round(mean(rgb.map((c) => c.r))),
+    g: Math.round(mean(rgb.map((c) => c.g))),
+    b: Math.round(mean(rgb.map((c) => c.b))),
+  };
+  const lab = rgbToLab(color);
+  const agreeing = results.filter((r) => r.type === classified.type).length;
+
+  return {
+    ...classified,
+    color: rgbToHex(color),
+    munsell: labToMunsell(lab),
+    ...estimateSoilCondition(lab),
+    // Capture time and place of the first image stand for the sample
+    image: results[0].image,
+    agreement: Math.round((agreeing / results.length) * 100),
+    images: items.map(({ name, result }) => ({
+      name,
+      type: result.type,
+      confidence: result.confidence,
+      color: result.color!,
+      texture: { sand: result.texture.sand, silt: result.texture.silt, clay: result.texture.clay },
+      region: result.region,
+      calibration: result.calibration,
+      image: result.image,
+      provenance: result.provenance,
+    })),
+  };
+}
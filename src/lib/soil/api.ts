@@ -0,0 +1,90 @@
+import { MAX_GAIN, MIN_GAIN, getReferenceCard } from "@/lib/soil/calibration";
+import type { ColorCalibration, SoilRegion, SoilResult } from "@/lib/soil/types";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface AnalyzeErrorResponse {
+  error: string;
+}
+
+export interface AnalyzeOptions {
+  region?: SoilRegion | null;
+  calibration?: ColorCalibration | null;
+  signal?: AbortSignal;
+}
+
+export class SoilAnalysisError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "SoilAnalysisError";
+  }
+}
+
+function isFraction(n: unknown) {
+  return typeof n === "number" && n >= 0 && n <= 1;
+}
+
+/**
+ * Validates a region sent as JSON in the `region` form field. Returns
+ * undefined for a missing or malformed region.
+ */
+export function parseSoilRegion(value: unknown): SoilRegion | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  try {
+    const { x, y, width, height } = JSON.parse(value);
+    const inRange = [x, y, width, height].every(isFraction);
+    // Allow for floating-point error in regions that run to the image edge
+    if (!inRange || width === 0 || height === 0 || x + width > 1 + 1e-6 || y + height > 1 + 1e-6) return undefined;
+    return { x, y, width, height };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validates a colour calibration sent as JSON in the `calibration` form
+ * field. Returns undefined for a missing or malformed calibration.
+ */
+export function parseColorCalibration(value: unknown): ColorCalibration | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  try {
+    const { reference, method, point, sample, gains } = JSON.parse(value);
+    const valid = getReferenceCard(reference)
+      && (method === "auto" || method === "tap")
+      && isFraction(point?.x) && isFraction(point?.y)
+      && [sample?.r, sample?.g, sample?.b].every((c) => typeof c === "number" && c >= 0 && c <= 255)
+      && Array.isArray(gains) && gains.length === 3
+      && gains.every((g: unknown) => typeof g === "number" && g >= MIN_GAIN && g <= MAX_GAIN);
+    if (!valid) return undefined;
+    return {
+      reference,
+      method,
+      point: { x: point.x, y: point.y },
+      sample: { r: sample.r, g: sample.g, b: sample.b },
+      gains: [gains[0], gains[1], gains[2]],
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sends an image to `/api/analyze`. Throws `SoilAnalysisError` when the
+ * server rejects it; network failures surface as the fetch `TypeError`.
+ */
+export async function requestSoilAnalysis(
+  image: Blob,
+  { region, calibration, signal }: AnalyzeOptions = {}
+): Promise<SoilResult> {
+  const body = new FormData();
+  body.append("image", image);
+  if (region) body.append("region", JSON.stringify(region));
+  if (calibration) body.append("calibration", JSON.stringify(calibration));
+
+  const response = await fetch("/api/analyze", { method: "POST", body, signal });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({ error: response.statusText }))) as AnalyzeErrorResponse;
+    throw new SoilAnalysisError(error, response.status);
+  }
+  return response.json();
+}
@@ -0,0 +1,149 @@
+import { rgbToLab, type RGB } from "@/lib/soil/color";
+import type { PixelData } from "@/lib/soil/features";
+import type { ColorCalibration } from "@/lib/soil/types";
+
+export interface ReferenceCard {
+  id: string;
+  label: string;
+  /** sRGB value the card patch should have under neutral light. */
+  target: RGB;
+}
+
+export const REFERENCE_CARDS: ReferenceCard[] = [
+  { id: "grey18", label: "18% grey card", target: { r: 119, g: 119, b: 119 } },
+  { id: "checkerNeutral5", label: "Colour checker – Neutral 5", target: { r: 122, g: 122, b: 121 } },
+  { id: "checkerWhite", label: "Colour checker – White", target: { r: 243, g: 243, b: 242 } },
+];
+
+// Radius of the patch averaged around a tapped point, as a share of the shorter side
+const PATCH_RADIUS = 0.02;
+// Gains outside this range mean the "card" was something else
+export const MIN_GAIN = 0.25;
+export const MAX_GAIN = 4;
+
+function toLinear(channel: number) {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function toSrgb(linear: number) {
+  const c = linear <= 0.0031308 ? linear * 12.92 : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+function meanColor({ data, width }: PixelData, left: number, top: number, right: number, bottom: number) {
+  const sum = { r: 0, g: 0, b: 0 };
+  let n = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = (y * width + x) * 4;
+      sum.r += data[i];
+      sum.g += data[i + 1];
+      sum.b += data[i + 2];
+      n++;
+    }
+  }
+  return n > 0 ? { r: sum.r / n, g: sum.g / n, b: sum.b / n } : null;
+}
+
+/** Averages the patch around a point given as fractions of the image size. */
+export function sampleReferencePatch(pixels: PixelData, point: { x: number; y: number }): RGB | null {
+  const { width, height } = pixels;
+  const radius = Math.max(1, Math.round(Math.min(width, height) * PATCH_RADIUS));
+  const cx = Math.round(point.x * (width - 1));
+  const cy = Math.round(point.y * (height - 1));
+  return meanColor(
+    pixels,
+    Math.max(0, cx - radius),
+    Math.max(0, cy - radius),
+    Math.min(width, cx + radius + 1),
+    Math.min(height, cy + radius + 1)
+  );
+}
+
+/**
+ * Looks for a reference card: the most uniform, least saturated block of the
+ * image that is neither black nor blown out. Soil is grainy, the card is
+ * flat; the chroma limit still admits a grey card under warm or cool light.
+ * Returns null when no block is flat and neutral enough to be a card.
+ */
+export function detectReferencePatch(pixels: PixelData): { point: { x: number; y: number }; sample: RGB } | null {
+  const { data, width, height } = pixels;
+  const block = Math.max(4, Math.round(Math.min(width, height) / 16));
+  let best: { score: number; point: { x: number; y: number }; sample: RGB } | null = null;
+
+  for (let top = 0; top + block <= height; top += block) {
+    for (let left = 0; left + block <= width; left += block) {
+      const sample = meanColor(pixels, left, top, left + block, top + block)!;
+      const lab = rgbToLab(sample);
+      if (lab.l < 30 || lab.l > 97) continue;
+
+      let spread = 0;
+      for (let y = top; y < top + block; y++) {
+        for (let x = left; x < left + block; x++) {
+          const i = (y * width + x) * 4;
+          spread += Math.abs(data[i] - sample.r) + Math.abs(data[i + 1] - sample.g) + Math.abs(data[i + 2] - sample.b);
+        }
+      }
+      spread /= block * block * 3;
+
+      const chroma = Math.hypot(lab.a, lab.b);
+      if (chroma > 25 || spread > 6) continue;
+
+      const score = spread * 2 + chroma / 2;
+      if (!best || score < best.score) {
+        best = {
+          score,
+          point: { x: (left + block / 2) / width, y: (top + block / 2) / height },
+          sample,
+        };
+      }
+    }
+  }
+  return best && { point: best.point, sample: best.sample };
+}
+
+/**
+ * Per-channel gains, in linear light, that map the measured card colour onto
+ * the card's known value. Corrects white balance and exposure together.
+ * Returns null when the sample cannot plausibly be the chosen card.
+ */
+export function computeCalibration(
+  card: ReferenceCard,
+  sample: RGB,
+  method: ColorCalibration["method"],
+  point: { x: number; y: number }
+): ColorCalibration | null {
+  const gains = (["r", "g", "b"] as const).map((c) => toLinear(card.target[c]) / Math.max(1e-4, toLinear(sample[c])));
+  if (gains.some((g) => g < MIN_GAIN || g > MAX_GAIN)) return null;
+
+  return {
+    reference: card.id,
+    method,
+    point,
+    sample: { r: Math.round(sample.r), g: Math.round(sample.g), b: Math.round(sample.b) },
+    gains: gains.map((g) => Math.round(g * 1000) / 1000) as [number, number, number],
+  };
+}
+
+/** Returns a colour-corrected copy of the pixels. */
+export function applyCalibration(pixels: PixelData, calibration: ColorCalibration): PixelData {
+  const lut = calibration.gains.map((gain) => {
+    const table = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) table[v] = toSrgb(toLinear(v) * gain);
+    return table;
+  });
+
+  const data = new Uint8ClampedArray(pixels.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[0][pixels.data[i]];
+    data[i + 1] = lut[1][pixels.data[i + 1]];
+    data[i + 2] = lut[2][pixels.data[i + 2]];
+    data[i + 3] = pixels.data[i + 3];
+  }
+  return { data, width: pixels.width, height: pixels.height };
+}
+
+export function getReferenceCard(id: string) {
+  return REFERENCE_CARDS.find((card) => card.id === id);
+}
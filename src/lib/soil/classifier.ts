@@ -0,0 +1,153 @@
+import { deltaE, hexToRgb, labToMunsell, rgbToLab, type Lab } from "@/lib/soil/color";
+import { estimateSoilCondition } from "@/lib/soil/condition";
+import { extractDominantColor, type DominantColor, type PixelData } from "@/lib/soil/features";
+import {
+  getTextureClass,
+  scoreTextureClasses,
+  toTriangle,
+  usdaTextureClass,
+  type TexturePoint,
+} from "@/lib/soil/texture";
+import type { SoilResult, SoilTexture } from "@/lib/soil/types";
+
+/** Version of the colour classifier, shared by the browser and the heuristic provider. */
+export const CLASSIFIER_VERSION = "1.1.0";
+
+export interface ColorPrototype {
+  type: string;
+  /** Reference colour of a typical moist sample of this class. */
+  color: string;
+  /** Typical composition of the class as (sand, clay) percentages. */
+  texture: TexturePoint;
+}
+
+export const COLOR_PROTOTYPES: ColorPrototype[] = [
+  { type: "Clay Loam", color: "#8B4513", texture: [33, 33] },
+  { type: "Sandy Loam", color: "#DEB887", texture: [65, 10] },
+  { type: "Silt Loam", color: "#A0522D", texture: [20, 15] },
+  { type: "Clay", color: "#654321", texture: [20, 60] },
+];
+
+const PROTOTYPE_LABS = COLOR_PROTOTYPES.map((prototype) => rgbToLab(hexToRgb(prototype.color)));
+
+// Softmax temperature in ΔE units: a 10 ΔE gap between two prototypes
+// is roughly a 5:1 preference for the nearer one. Picked by hand, not
+// fitted to labelled samples, so the scores are not calibrated probabilities.
+const TEMPERATURE = 6;
+
+export interface PrototypeScore {
+  prototype: ColorPrototype;
+  probability: number;
+  distance: number;
+}
+
+/**
+ * Scores every colour prototype against a measured colour, nearest first.
+ * Probabilities sum to 1.
+ */
+export function scoreColorPrototypes(lab: Lab): PrototypeScore[] {
+  const distances = COLOR_PROTOTYPES.map((prototype, i) => ({
+    prototype,
+    distance: deltaE(lab, PROTOTYPE_LABS[i]),
+  }));
+  const nearest = Math.min(...distances.map((d) => d.distance));
+  const weights = distances.map((d) => Math.exp(-(d.distance - nearest) / TEMPERATURE));
+  const sum = weights.reduce((acc, w) => acc + w, 0);
+
+  return distances
+    .map((d, i) => ({ ...d, probability: weights[i] / sum }))
+    .sort((x, y) => y.probability - x.probability);
+}
+
+/**
+ * Plain-language strength of a class score, 0–1. The scores only rank the
+ * classes, so they are shown as labels rather than as percentages.
+ */
+export function classScoreLabel(score: number) {
+  if (score >= 0.6) return "Strong match";
+  if (score >= 0.35) return "Likely";
+  if (score >= 0.15) return "Possible";
+  return "Weak match";
+}
+
+// How many classes, including the winner, a result reports
+const TOP_K = 3;
+// Runner-ups below this probability are noise, not alternatives
+const MIN_ALTERNATIVE_PROBABILITY = 0.05;
+// Colour alone never pins texture down tighter than this, in percentage points
+const MIN_UNCERTAINTY = 4;
+
+/**
+ * Blends the prototype compositions by their colour scores into one point on
+ * the texture triangle. The spread of the prototypes around that point is
+ * its uncertainty, widened when the soil in the frame is patchy so a mixed
+ * sample cannot report a confident class. A sample whose dominant colour
+ * covers half the soil pixels or more is not widened.
+ */
+export function estimateTexture(
+  scores: PrototypeScore[],
+  coverage: number
+): Omit<SoilTexture, "boundaryDistance" | "source"> {
+  let sand = 0;
+  let clay = 0;
+  for (const { prototype, probability } of scores) {
+    sand += probability * prototype.texture[0];
+    clay += probability * prototype.texture[1];
+  }
+  sand = Math.round(sand);
+  clay = Math.round(clay);
+
+  const center = toTriangle([sand, clay]);
+  const variance = scores.reduce((acc, { prototype, probability }) => {
+    const [x, y] = toTriangle(prototype.texture);
+    return acc + probability * ((x - center[0]) ** 2 + (y - center[1]) ** 2);
+  }, 0);
+  const uniformity = 0.7 + 0.3 * Math.min(1, coverage / 0.5);
+  const uncertainty = Math.max(MIN_UNCERTAINTY, Math.sqrt(variance)) / uniformity;
+
+  return { sand, silt: 100 - sand - clay, clay, uncertainty: Math.round(uncertainty * 10) / 10 };
+}
+
+/**
+ * Reads the class, its confidence and the runner-ups off the texture
+ * triangle for an estimated composition.
+ */
+export function classifyTexture(
+  estimate: Omit<SoilTexture, "boundaryDistance" | "source">
+): Pick<SoilResult, "type" | "description" | "confidence" | "alternatives" | "texture"> {
+  const classScores = scoreTextureClasses(estimate);
+  const type = usdaTextureClass(estimate.sand, estimate.silt, estimate.clay);
+  const top = classScores.find((score) => score.type === type)!;
+  const others = classScores.filter((score) => score.type !== type);
+
+  return {
+    type,
+    description: getTextureClass(type)!.description,
+    confidence: Math.round(top.probability * 100),
+    alternatives: others
+      .slice(0, TOP_K - 1)
+      .filter((score) => score.probability >= MIN_ALTERNATIVE_PROBABILITY)
+      .map(({ type, probability }) => ({ type, probability })),
+    texture: {
+      ...estimate,
+      boundaryDistance: Math.round(Math.min(...others.map((score) => score.distance)) * 10) / 10,
+      source: "image",
+    },
+  };
+}
+
+export function classifyDominantColor(dominant: DominantColor): SoilResult {
+  const estimate = estimateTexture(scoreColorPrototypes(dominant.lab), dominant.coverage);
+  return {
+    ...classifyTexture(estimate),
+    color: dominant.hex,
+    munsell: labToMunsell(dominant.lab),
+    ...estimateSoilCondition(dominant.lab),
+  };
+}
+
+/** Classifies a soil photo from its pixels. Returns null when no soil is visible. */
+export function classifySoilImage(pixels: PixelData): SoilResult | null {
+  const dominant = extractDominantColor(pixels);
+  return dominant ? classifyDominantColor(dominant) : null;
+}
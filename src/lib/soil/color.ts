@@ -0,0 +1,106 @@
+import type { MunsellColor } from "@/lib/soil/types";
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+
+function srgbToLinear(channel: number) {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function labPivot(t: number) {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+export function rgbToLab({ r, g, b }: RGB): Lab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+  const z = lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041;
+
+  const fx = labPivot(x / XN);
+  const fy = labPivot(y / YN);
+  const fz = labPivot(z / ZN);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+export function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+export function rgbToHex({ r, g, b }: RGB) {
+  const toHex = (c: number) => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, "0");
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+}
+
+export function deltaE(x: Lab, y: Lab) {
+  return Math.hypot(x.l - y.l, x.a - y.a, x.b - y.b);
+}
+
+const MUNSELL_FAMILIES = ["R", "YR", "Y", "GY", "G", "BG", "B", "PB", "P", "RP"];
+
+// Approximate CIELAB hue angle of each principal Munsell hue (5R, 5YR, ...)
+// at mid value. Soil colours sit between 10R and 5Y, where these anchors
+// are densest and most reliable.
+const PRINCIPAL_HUE_ANGLES = [20, 55, 90, 115, 165, 195, 230, 280, 315, 350];
+
+/**
+ * Converts a CIELAB hue angle to a position on the 0–100 Munsell hue circle
+ * by interpolating between the principal hue anchors.
+ */
+function hueAngleToMunsellNumber(angle: number) {
+  for (let i = 0; i < PRINCIPAL_HUE_ANGLES.length; i++) {
+    const start = PRINCIPAL_HUE_ANGLES[i];
+    const end = PRINCIPAL_HUE_ANGLES[(i + 1) % PRINCIPAL_HUE_ANGLES.length] + (i === PRINCIPAL_HUE_ANGLES.length - 1 ? 360 : 0);
+    const h = angle < start ? angle + 360 : angle;
+    if (h >= start && h < end) {
+      return (5 + i * 10 + ((h - start) / (end - start)) * 10) % 100;
+    }
+  }
+  return 5;
+}
+
+/**
+ * Approximates Munsell hue, value and chroma from a CIELAB colour, rounded
+ * to the steps printed on soil colour charts (2.5 hue steps, whole chroma).
+ */
+export function labToMunsell(lab: Lab): MunsellColor {
+  const value = Math.round(Math.min(10, Math.max(0, lab.l / 10)) * 2) / 2;
+  const chromaAb = Math.hypot(lab.a, lab.b);
+  const chroma = Math.round(chromaAb / 5);
+
+  if (chroma === 0) {
+    return { hue: "N", value, chroma: 0, notation: `N ${value}/` };
+  }
+
+  const angle = (Math.atan2(lab.b, lab.a) * 180 / Math.PI + 360) % 360;
+  const hueNumber = Math.round(hueAngleToMunsellNumber(angle) / 2.5) * 2.5 || 100;
+  // A step of 0 is written as 10 of the previous family (10YR, not 0Y)
+  const familyIndex = Math.ceil(hueNumber / 10) - 1;
+  const hue = `${hueNumber - familyIndex * 10}${MUNSELL_FAMILIES[familyIndex]}`;
+
+  return { hue, value, chroma, notation: `${hue} ${value}/${chroma}` };
+}
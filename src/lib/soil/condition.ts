@@ -0,0 +1,108 @@
+import type { Lab } from "@/lib/soil/color";
+import type {
+  MoistureEstimate,
+  MoistureState,
+  OrganicMatterBand,
+  OrganicMatterEstimate,
+  SoilResult,
+} from "@/lib/soil/types";
+
+export const MOISTURE_LABELS: Record<MoistureState, string> = {
+  dry: "Dry",
+  moist: "Moist",
+  wet: "Wet",
+};
+
+export const ORGANIC_MATTER_LABELS: Record<OrganicMatterBand, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+// Munsell value a mineral soil of ordinary organic matter typically shows in each state
+const MOISTURE_CENTERS: Record<MoistureState, number> = { dry: 6, moist: 4.5, wet: 3 };
+// Added to an observed value to give its moist equivalent, in Munsell value units
+const MOIST_EQUIVALENT_SHIFT: Record<MoistureState, number> = { dry: -1.5, moist: 0, wet: 0.5 };
+
+// Moist Munsell value typical of each organic matter band
+const ORGANIC_MATTER_CENTERS: Record<OrganicMatterBand, number> = { high: 2.5, medium: 4, low: 5.5 };
+// Organic matter content each band stands for, in percent
+const ORGANIC_MATTER_RANGES: Record<OrganicMatterBand, [number, number]> = {
+  low: [0, 2],
+  medium: [2, 4],
+  high: [4, 10],
+};
+// Red and yellow iron oxides lighten the look of a soil more than its organic matter does
+const HIGH_CHROMA = 30;
+
+// Width of the fuzzy boundaries between states and bands, in Munsell value units
+const SPREAD = 0.8;
+
+// Darkness is shared by wet soil and organic-rich soil, so colour alone
+// never settles either question; probabilities are scaled down to these
+const MAX_MOISTURE_CONFIDENCE = 70;
+const MAX_ORGANIC_MATTER_CONFIDENCE = 60;
+
+// Van Bemmelen factor: organic matter is about 58% carbon
+const CARBON_TO_ORGANIC_MATTER = 1.724;
+
+function softmax<K extends string>(value: number, centers: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(centers) as K[];
+  const weights = keys.map((key) => Math.exp(-((value - centers[key]) ** 2) / (2 * SPREAD ** 2)));
+  const sum = weights.reduce((acc, w) => acc + w, 0);
+  return Object.fromEntries(keys.map((key, i) => [key, weights[i] / sum])) as Record<K, number>;
+}
+
+function mostLikely<K extends string>(probabilities: Record<K, number>, maxConfidence: number) {
+  const [key, probability] = (Object.entries(probabilities) as [K, number][]).sort((x, y) => y[1] - x[1])[0];
+  return { key, confidence: Math.round(probability * maxConfidence) };
+}
+
+/**
+ * Estimates surface moisture and organic matter from the soil colour. Wet
+ * soil looks one to two Munsell value units darker than dry soil, and
+ * organic matter darkens it further; the moisture guess is undone before
+ * reading organic matter off the moist-equivalent value.
+ */
+export function estimateSoilCondition(lab: Lab): Pick<SoilResult, "moisture" | "organicMatter"> {
+  const value = lab.l / 10;
+  const moistureProbabilities = softmax(value, MOISTURE_CENTERS);
+  const moisture = mostLikely(moistureProbabilities, MAX_MOISTURE_CONFIDENCE);
+
+  const shift = (Object.keys(MOIST_EQUIVALENT_SHIFT) as MoistureState[])
+    .reduce((acc, state) => acc + moistureProbabilities[state] * MOIST_EQUIVALENT_SHIFT[state], 0);
+  const chromaShift = Math.hypot(lab.a, lab.b) > HIGH_CHROMA ? 0.5 : 0;
+  const moistValue = value + shift - chromaShift;
+  const organicMatter = mostLikely(softmax(moistValue, ORGANIC_MATTER_CENTERS), MAX_ORGANIC_MATTER_CONFIDENCE);
+
+  return {
+    moisture: { state: moisture.key, confidence: moisture.confidence },
+    organicMatter: {
+      band: organicMatter.key,
+      range: ORGANIC_MATTER_RANGES[organicMatter.key],
+      confidence: organicMatter.confidence,
+      source: "image",
+    },
+  };
+}
+
+/** Organic matter from a measured organic carbon percentage. */
+export function organicMatterFromCarbon(organicCarbon: number): OrganicMatterEstimate {
+  const percent = Math.round(organicCarbon * CARBON_TO_ORGANIC_MATTER * 10) / 10;
+  const band: OrganicMatterBand = percent < ORGANIC_MATTER_RANGES.medium[0]
+    ? "low"
+    : percent < ORGANIC_MATTER_RANGES.high[0] ? "medium" : "high";
+  return { band, range: [percent, percent], confidence: 100, source: "lab" };
+}
+
+/** Plain-language certainty for a moisture or organic matter estimate. */
+export function certaintyLabel(estimate: MoistureEstimate | OrganicMatterEstimate) {
+  if ("source" in estimate && estimate.source === "lab") return "Measured";
+  if (estimate.confidence >= 60) return "Moderate certainty";
+  if (estimate.confidence >= 45) return "Low certainty";
+  return "Rough guess";
+}
+
+export function formatOrganicMatterRange({ range: [min, max] }: OrganicMatterEstimate) {
+  return min === max ? `${min}%` : `${min}–${max}%`;
+}
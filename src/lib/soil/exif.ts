@@ -0,0 +1,64 @@
+import exifr from "exifr";
+import type { ImageMetadata } from "@/lib/soil/types";
+
+const EXIF_TAGS = [
+  "DateTimeOriginal",
+  "CreateDate",
+  "OffsetTimeOriginal",
+  "GPSLatitude",
+  "GPSLatitudeRef",
+  "GPSLongitude",
+  "GPSLongitudeRef",
+];
+
+/**
+ * Converts an EXIF "YYYY:MM:DD HH:MM:SS" stamp to ISO 8601. The offset is
+ * only known when the camera wrote OffsetTimeOriginal; without it the time
+ * is kept as the camera's local wall-clock time.
+ */
+export function parseExifDate(value: unknown, offset?: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  // Cameras without a clock write zeros
+  if (year === "0000") return undefined;
+  const zone = typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+function isValidCoordinate(lat: unknown, lng: unknown): lat is number {
+  return (
+    typeof lat === "number" &&
+    typeof lng === "number" &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180 &&
+    // Some phones write 0,0 when they have no fix
+    !(lat === 0 && lng === 0)
+  );
+}
+
+/**
+ * Reads the capture time and GPS position a camera recorded in the photo.
+ * Missing or unreadable EXIF data gives an empty result, never an error.
+ */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  let tags: Record<string, unknown> | undefined;
+  try {
+    tags = await exifr.parse(file, { pick: EXIF_TAGS, reviveValues: false });
+  } catch {
+    return {};
+  }
+  if (!tags) return {};
+
+  const metadata: ImageMetadata = {};
+  const capturedAt = parseExifDate(tags.DateTimeOriginal ?? tags.CreateDate, tags.OffsetTimeOriginal);
+  if (capturedAt) metadata.capturedAt = capturedAt;
+
+  // exifr adds signed decimal degrees alongside the raw GPS tags
+  if (isValidCoordinate(tags.latitude, tags.longitude)) {
+    metadata.location = { lat: tags.latitude, lng: tags.longitude as number };
+  }
+  return metadata;
+}
@@ -0,0 +1,123 @@
+import { rgbToHex, rgbToLab, type Lab } from "@/lib/soil/color";
+
+/** Pixel buffer in the layout of `ImageData` (RGBA, row-major). */
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface DominantColor {
+  lab: Lab;
+  hex: string;
+  /** Share of soil-coloured pixels that fall in the dominant colour cluster. */
+  coverage: number;
+  /** Share of sampled pixels that look like soil at all. */
+  soilFraction: number;
+  sampleCount: number;
+}
+
+const MAX_SAMPLES = 40000;
+
+// Bin sizes for the coarse CIELAB histogram used to find the dominant colour
+const L_BIN = 6;
+const AB_BIN = 4;
+
+interface Bin {
+  count: number;
+  l: number;
+  a: number;
+  b: number;
+  r: number;
+  g: number;
+  bl: number;
+}
+
+/**
+ * Soil sits in a narrow band of warm, low-to-moderate chroma colours.
+ * Specular highlights, deep shadow, vegetation and sky are ignored.
+ */
+export function isSoilLike(lab: Lab) {
+  if (lab.l > 95 || lab.l < 4) return false;
+  if (lab.a < -6) return false;
+  if (lab.b < -4) return false;
+  return Math.hypot(lab.a, lab.b) < 60;
+}
+
+/**
+ * Finds the dominant soil colour in an image by binning soil-like pixels in
+ * CIELAB space and averaging the most populated bin with its neighbours.
+ * Returns null when no pixel looks like soil.
+ */
+export function extractDominantColor(pixels: PixelData): DominantColor | null {
+  const { data, width, height } = pixels;
+  const total = width * height;
+  const stride = Math.max(1, Math.floor(Math.sqrt(total / MAX_SAMPLES)));
+
+  const bins = new Map<string, Bin>();
+  let sampled = 0;
+  let accepted = 0;
+
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] < 128) continue;
+      sampled++;
+
+      const rgb = { r: data[i], g: data[i + 1], b: data[i + 2] };
+      const lab = rgbToLab(rgb);
+      if (!isSoilLike(lab)) continue;
+      accepted++;
+
+      const key = `${Math.floor(lab.l / L_BIN)}:${Math.floor(lab.a / AB_BIN)}:${Math.floor(lab.b / AB_BIN)}`;
+      const bin = bins.get(key) ?? { count: 0, l: 0, a: 0, b: 0, r: 0, g: 0, bl: 0 };
+      bin.count++;
+      bin.l += lab.l;
+      bin.a += lab.a;
+      bin.b += lab.b;
+      bin.r += rgb.r;
+      bin.g += rgb.g;
+      bin.bl += rgb.b;
+      bins.set(key, bin);
+    }
+  }
+
+  if (accepted === 0) return null;
+
+  let peakKey = "";
+  let peakCount = 0;
+  for (const [key, bin] of bins) {
+    // Ties are broken by key so the result never depends on insertion order
+    if (bin.count > peakCount || (bin.count === peakCount && key < peakKey)) {
+      peakKey = key;
+      peakCount = bin.count;
+    }
+  }
+
+  const [pl, pa, pb] = peakKey.split(":").map(Number);
+  const cluster: Bin = { count: 0, l: 0, a: 0, b: 0, r: 0, g: 0, bl: 0 };
+  for (let dl = -1; dl <= 1; dl++) {
+    for (let da = -1; da <= 1; da++) {
+      for (let db = -1; db <= 1; db++) {
+        const bin = bins.get(`${pl + dl}:${pa + da}:${pb + db}`);
+        if (!bin) continue;
+        cluster.count += bin.count;
+        cluster.l += bin.l;
+        cluster.a += bin.a;
+        cluster.b += bin.b;
+        cluster.r += bin.r;
+        cluster.g += bin.g;
+        cluster.bl += bin.bl;
+      }
+    }
+  }
+
+  const n = cluster.count;
+  return {
+    lab: { l: cluster.l / n, a: cluster.a / n, b: cluster.b / n },
+    hex: rgbToHex({ r: cluster.r / n, g: cluster.g / n, b: cluster.bl / n }),
+    coverage: n / accepted,
+    soilFraction: accepted / sampled,
+    sampleCount: sampled,
+  };
+}
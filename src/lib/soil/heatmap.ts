@@ -0,0 +1,127 @@
+import { estimateTexture, scoreColorPrototypes } from "@/lib/soil/classifier";
+import { deltaE, rgbToLab, type Lab } from "@/lib/soil/color";
+import { extractDominantColor, isSoilLike, type PixelData } from "@/lib/soil/features";
+import { regionToPixels } from "@/lib/soil/image";
+import { TEXTURE_CLASSES, scoreTextureClasses } from "@/lib/soil/texture";
+import type { SoilRegion } from "@/lib/soil/types";
+
+// Cells along the longer side of the image
+export const HEATMAP_CELLS = 24;
+
+// Cells with less soil than this are shadow, stone, plant or card
+const MIN_CELL_SOIL_FRACTION = 0.3;
+// Roughly the reach of the histogram bins merged into the dominant colour, in ΔE
+const CLUSTER_RADIUS = 9;
+// Pixels sampled per cell side; enough for a stable mean colour
+const CELL_SAMPLES = 8;
+// Classes averaging less than this over the analysed area are not worth a layer
+export const MIN_LAYER_MEAN = 0.01;
+
+export interface HeatmapCell {
+  /** Score of each class in `ClassHeatmap.classes`; null when the cell holds too little soil. */
+  probabilities: number[] | null;
+  /** Share of the cell's soil pixels that fall in the dominant colour cluster. */
+  cluster: number;
+}
+
+export interface ClassHeatmap {
+  columns: number;
+  rows: number;
+  /** USDA texture classes, in the order of each cell's `probabilities`. */
+  classes: string[];
+  /** Row-major, `columns` × `rows`. */
+  cells: HeatmapCell[];
+  /** Mean score of each class over the soil cells inside the analysed region. */
+  means: number[];
+  /** Whether a dominant colour was found to compare cells against. */
+  hasCluster: boolean;
+}
+
+function cropPixels({ data, width, height }: PixelData, region: SoilRegion): PixelData {
+  const { left, top, width: w, height: h } = regionToPixels(region, width, height);
+  const cropped = new Uint8ClampedArray(w * h * 4);
+  for (let y = 0; y < h; y++) {
+    const start = ((top + y) * width + left) * 4;
+    cropped.set(data.subarray(start, start + w * 4), y * w * 4);
+  }
+  return { data: cropped, width: w, height: h };
+}
+
+function inRegion(x: number, y: number, region: SoilRegion | null) {
+  return !region || (x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height);
+}
+
+/**
+ * Scores a grid of cells over the whole image the way the classifier scores
+ * the sample: each cell's mean soil colour is read onto the texture triangle
+ * and scored against the texture classes, and checked for how much of it
+ * belongs to the dominant colour of the analysed region. Cells the classifier
+ * would ignore, such as shadows and stones, have no scores.
+ */
+export function computeClassHeatmap(pixels: PixelData, region: SoilRegion | null): ClassHeatmap {
+  const { data, width, height } = pixels;
+  const cellSize = Math.max(width, height) / HEATMAP_CELLS;
+  const columns = Math.max(1, Math.round(width / cellSize));
+  const rows = Math.max(1, Math.round(height / cellSize));
+  const dominant: Lab | undefined = extractDominantColor(region ? cropPixels(pixels, region) : pixels)?.lab;
+
+  const cells: HeatmapCell[] = [];
+  const sums = TEXTURE_CLASSES.map(() => 0);
+  let counted = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.floor((column * width) / columns);
+      const x1 = Math.floor(((column + 1) * width) / columns);
+      const y0 = Math.floor((row * height) / rows);
+      const y1 = Math.floor(((row + 1) * height) / rows);
+      const stride = Math.max(1, Math.floor(Math.min(x1 - x0, y1 - y0) / CELL_SAMPLES));
+
+      let sampled = 0;
+      let soil = 0;
+      let clustered = 0;
+      const mean = { l: 0, a: 0, b: 0 };
+      for (let y = y0; y < y1; y += stride) {
+        for (let x = x0; x < x1; x += stride) {
+          const i = (y * width + x) * 4;
+          sampled++;
+          const lab = rgbToLab({ r: data[i], g: data[i + 1], b: data[i + 2] });
+          if (!isSoilLike(lab)) continue;
+          soil++;
+          mean.l += lab.l;
+          mean.a += lab.a;
+          mean.b += lab.b;
+          if (dominant && deltaE(lab, dominant) <= CLUSTER_RADIUS) clustered++;
+        }
+      }
+
+      if (sampled === 0 || soil / sampled < MIN_CELL_SOIL_FRACTION) {
+        cells.push({ probabilities: null, cluster: 0 });
+        continue;
+      }
+      // A cell is small enough to count as one uniform patch of soil
+      const texture = estimateTexture(scoreColorPrototypes({ l: mean.l / soil, a: mean.a / soil, b: mean.b / soil }), 1);
+      const scores = scoreTextureClasses(texture);
+      const probabilities = TEXTURE_CLASSES.map(
+        (textureClass) => scores.find((score) => score.type === textureClass.type)!.probability
+      );
+      cells.push({ probabilities, cluster: clustered / soil });
+
+      const centerX = (column + 0.5) / columns;
+      const centerY = (row + 0.5) / rows;
+      if (inRegion(centerX, centerY, region)) {
+        probabilities.forEach((p, i) => (sums[i] += p));
+        counted++;
+      }
+    }
+  }
+
+  return {
+    columns,
+    rows,
+    classes: TEXTURE_CLASSES.map((textureClass) => textureClass.type),
+    cells,
+    means: sums.map((sum) => (counted > 0 ? sum / counted : 0)),
+    hasCluster: !!dominant,
+  };
+}
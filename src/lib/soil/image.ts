@@ -0,0 +1,180 @@
+import type { SoilRegion } from "@/lib/soil/types";
+
+/** Longest side, in pixels, that images are reduced to before analysis. */
+export const ANALYSIS_MAX_SIDE = 512;
+
+/** Largest photo accepted before compression; microscope TIFFs are often big. */
+export const MAX_SOURCE_IMAGE_BYTES = 50 * 1024 * 1024;
+
+/** Longest side kept for uploads; enough detail for marking regions in the zoom view. */
+export const UPLOAD_MAX_SIDE = 2048;
+// Browser-decodable files below this size are uploaded untouched
+const UPLOAD_REENCODE_BYTES = 4 * 1024 * 1024;
+const UPLOAD_JPEG_QUALITY = 0.9;
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "heic" | "tiff";
+
+const FORMAT_TYPES: Record<ImageFormat, string[]> = {
+  jpeg: ["image/jpeg", "image/jpg"],
+  png: ["image/png"],
+  webp: ["image/webp"],
+  heic: ["image/heic", "image/heif", "image/heic-sequence", "image/heif-sequence"],
+  tiff: ["image/tiff", "image/tif"],
+};
+
+const FORMAT_EXTENSIONS: Record<ImageFormat, RegExp> = {
+  jpeg: /\.jpe?g$/i,
+  png: /\.png$/i,
+  webp: /\.webp$/i,
+  heic: /\.hei[cf]$/i,
+  tiff: /\.tiff?$/i,
+};
+
+/** Value for a file input's `accept` attribute. */
+export const ACCEPTED_IMAGE_TYPES = [
+  ...Object.values(FORMAT_TYPES).flat(),
+  ".heic",
+  ".heif",
+  ".tif",
+  ".tiff",
+].join(",");
+
+/**
+ * Identifies a supported format from the MIME type, falling back to the
+ * extension because some browsers report HEIC and TIFF files with no type.
+ */
+export function detectImageFormat(file: Blob & { name?: string }): ImageFormat | null {
+  const formats = Object.keys(FORMAT_TYPES) as ImageFormat[];
+  return (
+    formats.find((format) => FORMAT_TYPES[format].includes(file.type.toLowerCase())) ??
+    formats.find((format) => file.name && FORMAT_EXTENSIONS[format].test(file.name)) ??
+    null
+  );
+}
+
+/** Converts a normalised region to whole-pixel bounds inside a `width` × `height` image. */
+export function regionToPixels(region: SoilRegion, width: number, height: number) {
+  const left = Math.min(width - 1, Math.max(0, Math.floor(region.x * width)));
+  const top = Math.min(height - 1, Math.max(0, Math.floor(region.y * height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(region.width * width))),
+    height: Math.max(1, Math.min(height - top, Math.round(region.height * height))),
+  };
+}
+
+/** Uses OffscreenCanvas where available so this also runs inside a worker. */
+function createCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function get2dContext(canvas: HTMLCanvasElement | OffscreenCanvas) {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return ctx;
+}
+
+async function decodeTiff(file: Blob) {
+  const UTIF = await import("utif");
+  const buffer = await file.arrayBuffer();
+  // Microscope TIFFs can hold several pages; the first is the image itself
+  const [page] = UTIF.decode(buffer);
+  if (!page) throw new Error("TIFF file contains no images");
+  UTIF.decodeImage(buffer, page);
+  const rgba = new Uint8ClampedArray(UTIF.toRGBA8(page));
+  return createImageBitmap(new ImageData(rgba, page.width, page.height));
+}
+
+/**
+ * Decodes any supported format to a bitmap. HEIC is only native in Safari,
+ * so other browsers go through a WebAssembly decoder; TIFF always does.
+ */
+export async function decodeImage(file: Blob & { name?: string }): Promise<ImageBitmap> {
+  const format = detectImageFormat(file);
+  if (format === "tiff") return decodeTiff(file);
+  try {
+    return await createImageBitmap(file);
+  } catch (error) {
+    if (format !== "heic") throw error;
+    const { heicTo } = await import("heic-to/next");
+    return heicTo({ blob: file, type: "bitmap" });
+  }
+}
+
+export interface PreparedImage {
+  /** Browser-decodable image to preview, analyze and upload. */
+  file: Blob;
+  /** Size of the image as supplied, before any resize. */
+  width: number;
+  height: number;
+  resized: boolean;
+  /** False when `file` holds the original bytes unchanged. */
+  reencoded: boolean;
+}
+
+/**
+ * Makes a photo ready for analysis and upload. Formats the browser cannot
+ * display, and large files, are re-encoded as JPEG with the longest side
+ * capped at `UPLOAD_MAX_SIDE`; small JPEG, PNG and WebP files pass through.
+ */
+export async function prepareImage(file: Blob & { name?: string }): Promise<PreparedImage> {
+  const format = detectImageFormat(file);
+  const bitmap = await decodeImage(file);
+  try {
+    const { width, height } = bitmap;
+    const native = format === "jpeg" || format === "png" || format === "webp";
+    if (native && file.size <= UPLOAD_REENCODE_BYTES && Math.max(width, height) <= UPLOAD_MAX_SIDE) {
+      return { file, width, height, resized: false, reencoded: false };
+    }
+
+    const scale = Math.min(1, UPLOAD_MAX_SIDE / Math.max(width, height));
+    const canvas = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    get2dContext(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const options = { type: "image/jpeg", quality: UPLOAD_JPEG_QUALITY };
+    const encoded =
+      "convertToBlob" in canvas
+        ? await canvas.convertToBlob(options)
+        : await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, options.type, options.quality));
+    if (!encoded) throw new Error("Could not encode the resized image");
+
+    return { file: encoded, width, height, resized: scale < 1, reencoded: true };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Decodes an image file in the browser and returns its pixels, cropped to
+ * `region` when one is given and downscaled so the longest side is at most
+ * `maxSide`. The full-size bitmap is released as soon as it has been drawn.
+ */
+export async function loadImagePixels(
+  file: Blob,
+  region?: SoilRegion | null,
+  maxSide = ANALYSIS_MAX_SIDE
+): Promise<ImageData> {
+  const bitmap = await decodeImage(file);
+  try {
+    const source = region
+      ? regionToPixels(region, bitmap.width, bitmap.height)
+      : { left: 0, top: 0, width: bitmap.width, height: bitmap.height };
+    const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    const ctx = get2dContext(createCanvas(width, height));
+    ctx.drawImage(bitmap, source.left, source.top, source.width, source.height, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,82 @@
+import type { LocationData } from "@/lib/soil/types";
+
+export interface IndianState {
+  name: string;
+  /** Long-term mean annual rainfall, in mm (IMD normals, rounded). */
+  rainfall: number;
+  /** District headquarters spread across the state, as [lat, lng], for placing coordinates. */
+  places: [lat: number, lng: number][];
+}
+
+// States and union territories with farmland; names as users type them
+export const INDIAN_STATES: IndianState[] = [
+  { name: "Andhra Pradesh", rainfall: 950, places: [[16.51, 80.65], [17.69, 83.22], [15.83, 78.04], [13.63, 79.42], [14.68, 77.6]] },
+  { name: "Arunachal Pradesh", rainfall: 2800, places: [[27.08, 93.61], [27.59, 91.86], [28.07, 95.33], [27.92, 96.16]] },
+  { name: "Assam", rainfall: 2300, places: [[26.14, 91.74], [27.47, 94.91], [24.83, 92.78], [26.63, 92.8]] },
+  { name: "Bihar", rainfall: 1200, places: [[25.59, 85.14], [24.8, 85], [26.12, 85.39], [25.78, 87.47], [25.24, 86.98]] },
+  { name: "Chhattisgarh", rainfall: 1300, places: [[21.25, 81.63], [22.08, 82.14], [19.07, 82.03], [23.12, 83.2]] },
+  { name: "Delhi", rainfall: 700, places: [[28.61, 77.21]] },
+  { name: "Goa", rainfall: 3000, places: [[15.5, 73.83]] },
+  { name: "Gujarat", rainfall: 800, places: [[23.02, 72.57], [22.3, 70.8], [21.17, 72.83], [23.24, 69.67], [22.31, 73.18]] },
+  { name: "Haryana", rainfall: 600, places: [[29.15, 75.72], [29.69, 76.99], [28.9, 76.61], [28.46, 77.03], [30.38, 76.78]] },
+  { name: "Himachal Pradesh", rainfall: 1250, places: [[31.1, 77.17], [32.22, 76.32], [31.71, 76.93], [31.96, 77.11]] },
+  { name: "Jammu and Kashmir", rainfall: 1100, places: [[34.08, 74.8], [32.73, 74.86], [33.73, 75.15]] },
+  { name: "Jharkhand", rainfall: 1300, places: [[23.34, 85.31], [23.8, 86.43], [22.8, 86.2], [24.03, 84.07], [24.27, 87.25]] },
+  { name: "Karnataka", rainfall: 1250, places: [[12.97, 77.59], [12.3, 76.64], [15.36, 75.12], [17.33, 76.83], [12.91, 74.86], [15.85, 74.5], [13.93, 75.57]] },
+  { name: "Kerala", rainfall: 3000, places: [[8.52, 76.94], [9.93, 76.27], [11.26, 75.78], [10.53, 76.21], [11.87, 75.37]] },
+  { name: "Ladakh", rainfall: 100, places: [[34.15, 77.58], [34.56, 76.13]] },
+  { name: "Madhya Pradesh", rainfall: 1100, places: [[23.26, 77.41], [22.72, 75.86], [23.18, 79.99], [26.22, 78.18], [24.53, 81.3], [23.84, 78.74]] },
+  { name: "Maharashtra", rainfall: 1200, places: [[19.08, 72.88], [18.52, 73.86], [21.15, 79.09], [19.88, 75.34], [20, 73.79], [16.7, 74.24], [17.66, 75.91], [20.93, 77.75], [19.15, 77.32]] },
+  { name: "Manipur", rainfall: 1500, places: [[24.82, 93.94]] },
+  { name: "Meghalaya", rainfall: 2800, places: [[25.58, 91.89], [25.51, 90.22]] },
+  { name: "Mizoram", rainfall: 2500, places: [[23.73, 92.72], [22.88, 92.73]] },
+  { name: "Nagaland", rainfall: 1800, places: [[25.67, 94.11], [25.91, 93.73], [26.32, 94.52]] },
+  { name: "Odisha", rainfall: 1450, places: [[20.3, 85.82], [21.47, 83.97], [19.31, 84.79], [18.81, 82.71], [21.49, 86.93]] },
+  { name: "Puducherry", rainfall: 1350, places: [[11.94, 79.81], [10.92, 79.83]] },
+  { name: "Punjab", rainfall: 650, places: [[30.9, 75.85], [31.63, 74.87], [30.21, 74.95], [30.34, 76.39], [31.33, 75.58]] },
+  { name: "Rajasthan", rainfall: 450, places: [[26.91, 75.79], [26.24, 73.02], [28.02, 73.31], [24.59, 73.71], [25.21, 75.86], [26.92, 70.91], [29.9, 73.88]] },
+  { name: "Sikkim", rainfall: 2700, places: [[27.33, 88.61]] },
+  { name: "Tamil Nadu", rainfall: 950, places: [[13.08, 80.27], [11.02, 76.96], [9.93, 78.12], [10.79, 78.7], [11.66, 78.15], [8.71, 77.76], [12.92, 79.13]] },
+  { name: "Telangana", rainfall: 900, places: [[17.39, 78.49], [17.97, 79.59], [18.67, 78.09], [17.25, 80.15], [16.74, 78]] },
+  { name: "Tripura", rainfall: 2200, places: [[23.83, 91.28], [24.37, 92.17]] },
+  { name: "Uttar Pradesh", rainfall: 1000, places: [[26.85, 80.95], [26.45, 80.33], [27.18, 78.01], [25.32, 82.97], [26.76, 83.37], [28.98, 77.71], [28.37, 79.43], [25.45, 78.57]] },
+  { name: "Uttarakhand", rainfall: 1500, places: [[30.32, 78.03], [29.22, 79.51], [29.58, 80.22], [30.73, 78.44]] },
+  { name: "West Bengal", rainfall: 1800, places: [[22.57, 88.36], [26.73, 88.4], [23.23, 87.86], [25.01, 88.14], [22.42, 87.32], [26.32, 89.45]] },
+];
+
+// Coordinates farther than this, in km, from every listed place are not placed in a state
+const MAX_PLACE_DISTANCE_KM = 200;
+
+// Equirectangular approximation; close enough at these distances
+function distanceKm([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]) {
+  const x = (lng2 - lng1) * Math.cos((((lat1 + lat2) / 2) * Math.PI) / 180) * 111.32;
+  const y = (lat2 - lat1) * 110.57;
+  return Math.sqrt(x * x + y * y);
+}
+
+/** The state or union territory a name refers to, ignoring case. */
+export function indianStateByName(name: string | undefined) {
+  const key = name?.trim().toLowerCase();
+  return key ? INDIAN_STATES.find((state) => state.name.toLowerCase() === key) : undefined;
+}
+
+/**
+ * The location's state or union territory: the one typed in, or else the
+ * state of the nearest listed place to its coordinates. Coordinates near a border may land in
+ * the neighbouring state, or across the border.
+ */
+export function indianState(location: LocationData | null | undefined): IndianState | undefined {
+  if (!location) return undefined;
+  const named = indianStateByName(location.state);
+  if (named || location.lat === undefined || location.lng === undefined) return named;
+  const point: [number, number] = [location.lat, location.lng];
+
+  let nearest: { state: IndianState; distance: number } | undefined;
+  for (const state of INDIAN_STATES) {
+    for (const place of state.places) {
+      const distance = distanceKm(point, place);
+      if (!nearest || distance < nearest.distance) nearest = { state, distance };
+    }
+  }
+  return nearest && nearest.distance <= MAX_PLACE_DISTANCE_KM ? nearest.state : undefined;
+}
@@ -0,0 +1,196 @@
+export type Rating = "Very low" | "Low" | "Moderate" | "High" | "Very high";
+export type DrainageRate = "Very rapid" | "Rapid" | "Moderate" | "Slow" | "Very slow";
+
+/** Agronomic profile of a USDA texture class. */
+export interface SoilKnowledge {
+  type: string;
+  /** How quickly water moves through the soil. */
+  drainage: DrainageRate;
+  waterHolding: Rating;
+  /** Plant-available water, in mm per metre of soil. */
+  availableWater: [min: number, max: number];
+  /** pH range the class is commonly found in; local geology shifts it. */
+  typicalPh: [min: number, max: number];
+  workability: string;
+  /** Nutrient problems the class is prone to. */
+  deficiencies: string[];
+  management: string[];
+}
+
+// Ratings and ranges follow USDA NRCS and FAO texture guidance
+const SOIL_KNOWLEDGE: SoilKnowledge[] = [
+  {
+    type: "Sand",
+    drainage: "Very rapid",
+    waterHolding: "Very low",
+    availableWater: [25, 100],
+    typicalPh: [5.0, 7.0],
+    workability: "Easy to work in any weather, but loose and prone to wind erosion",
+    deficiencies: ["Nitrogen and potassium leach quickly", "Magnesium and sulfur", "Boron and other micronutrients"],
+    management: [
+      "Add compost or manure every season to hold water and nutrients",
+      "Split fertiliser into small, frequent doses",
+      "Irrigate little and often; drip suits it well",
+      "Keep the surface covered with mulch or a cover crop",
+    ],
+  },
+  {
+    type: "Loamy Sand",
+    drainage: "Rapid",
+    waterHolding: "Low",
+    availableWater: [60, 120],
+    typicalPh: [5.0, 7.0],
+    workability: "Easy to work soon after rain; warms early in spring",
+    deficiencies: ["Nitrogen and potassium leach", "Magnesium", "Zinc and boron"],
+    management: [
+      "Build organic matter with compost and green manure",
+      "Split nitrogen applications to limit leaching",
+      "Mulch to slow drying between irrigations",
+    ],
+  },
+  {
+    type: "Sandy Loam",
+    drainage: "Rapid",
+    waterHolding: "Moderate",
+    availableWater: [90, 150],
+    typicalPh: [5.5, 7.0],
+    workability: "Easy to work over a wide range of moisture",
+    deficiencies: ["Nitrogen under heavy rain or irrigation", "Potassium", "Zinc"],
+    management: [
+      "Add organic matter to raise water holding",
+      "Use moderate, regular fertiliser doses",
+      "Suited to root crops; avoid working it bone-dry to protect structure",
+    ],
+  },
+  {
+    type: "Loam",
+    drainage: "Moderate",
+    waterHolding: "High",
+    availableWater: [140, 200],
+    typicalPh: [6.0, 7.5],
+    workability: "Crumbles well and is workable over a wide moisture range",
+    deficiencies: ["Few inherent problems; nitrogen falls under continuous cropping"],
+    management: [
+      "Rotate crops and return residues to keep organic matter up",
+      "Fertilise according to a soil test",
+      "Avoid heavy machinery when wet to prevent compaction",
+    ],
+  },
+  {
+    type: "Silt Loam",
+    drainage: "Moderate",
+    waterHolding: "High",
+    availableWater: [150, 230],
+    typicalPh: [6.0, 7.5],
+    workability: "Workable when moist, but the surface crusts after rain",
+    deficiencies: ["Nitrogen under continuous cropping", "Phosphorus in weathered soils"],
+    management: [
+      "Keep residue or mulch on the surface to stop crusting",
+      "Sow shallow and irrigate gently until seedlings emerge",
+      "Limit tillage to protect structure",
+    ],
+  },
+  {
+    type: "Silt",
+    drainage: "Moderate",
+    waterHolding: "High",
+    availableWater: [150, 230],
+    typicalPh: [6.0, 7.5],
+    workability: "Smooth and easy to work, but crusts and compacts readily",
+    deficiencies: ["Nitrogen", "Phosphorus"],
+    management: [
+      "Maintain surface cover to prevent crusting and erosion",
+      "Add organic matter to stabilise aggregates",
+      "Keep traffic off wet ground",
+    ],
+  },
+  {
+    type: "Sandy Clay Loam",
+    drainage: "Moderate",
+    waterHolding: "Moderate",
+    availableWater: [110, 170],
+    typicalPh: [5.5, 7.5],
+    workability: "Firm; workable within a moderate moisture window",
+    deficiencies: ["Phosphorus, held by clay and iron", "Nitrogen"],
+    management: [
+      "Work only at the right moisture to avoid clods",
+      "Add organic matter to loosen structure",
+      "Band phosphorus near the seed",
+    ],
+  },
+  {
+    type: "Clay Loam",
+    drainage: "Moderate",
+    waterHolding: "High",
+    availableWater: [140, 200],
+    typicalPh: [6.0, 8.0],
+    workability: "Sticky when wet and hard when dry; a moderate window for tillage",
+    deficiencies: ["Phosphorus fixation", "Zinc and iron in alkaline soils"],
+    management: [
+      "Till only when a handful crumbles rather than smears",
+      "Add organic matter and grow deep-rooted cover crops",
+      "Use raised beds where water stands after rain",
+    ],
+  },
+  {
+    type: "Silty Clay Loam",
+    drainage: "Slow",
+    waterHolding: "High",
+    availableWater: [150, 210],
+    typicalPh: [6.0, 8.0],
+    workability: "Sticky when wet; crusts and compacts if worked wet",
+    deficiencies: ["Nitrogen lost by denitrification when waterlogged", "Phosphorus fixation"],
+    management: [
+      "Improve drainage with beds or field drains",
+      "Keep the surface covered to reduce crusting",
+      "Avoid traffic and tillage when wet",
+    ],
+  },
+  {
+    type: "Sandy Clay",
+    drainage: "Slow",
+    waterHolding: "Moderate",
+    availableWater: [110, 160],
+    typicalPh: [5.5, 7.5],
+    workability: "Hard when dry and sticky when wet; difficult to work",
+    deficiencies: ["Phosphorus fixation", "Nitrogen"],
+    management: [
+      "Add organic matter generously to improve structure",
+      "Work at the right moisture to avoid clods",
+      "Use beds or ridges to keep roots out of standing water",
+    ],
+  },
+  {
+    type: "Silty Clay",
+    drainage: "Slow",
+    waterHolding: "High",
+    availableWater: [140, 200],
+    typicalPh: [6.5, 8.0],
+    workability: "Heavy; cracks when dry and waterlogs when wet",
+    deficiencies: ["Nitrogen lost when waterlogged", "Zinc and iron in alkaline soils"],
+    management: [
+      "Provide surface drainage or raised beds",
+      "Grow crops that tolerate wet feet, such as rice, in low fields",
+      "Add organic matter and avoid working it wet",
+    ],
+  },
+  {
+    type: "Clay",
+    drainage: "Very slow",
+    waterHolding: "High",
+    availableWater: [120, 200],
+    typicalPh: [6.5, 8.5],
+    workability: "Very heavy; sticky when wet, hard and cracked when dry",
+    deficiencies: ["Phosphorus fixation", "Zinc and iron in alkaline soils", "Nitrogen lost when waterlogged"],
+    management: [
+      "Drain low spots and plant on raised beds or ridges",
+      "Till only in the short window when it is moist but not sticky",
+      "Add gypsum where sodium makes the clay disperse",
+      "Build organic matter to open up structure",
+    ],
+  },
+];
+
+export function getSoilKnowledge(type: string) {
+  return SOIL_KNOWLEDGE.find((entry) => entry.type === type);
+}
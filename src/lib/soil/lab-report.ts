@@ -0,0 +1,385 @@
+import { LAB_PARAMETERS, validateLabValues } from "@/lib/soil/lab";
+import type { LabParameterKey, LabValues } from "@/lib/soil/types";
+
+export type LabReportFormat = "csv" | "pdf";
+
+export interface MappedLabValue {
+  key: LabParameterKey;
+  /** Column header or row label as written in the report. */
+  source: string;
+  raw: string;
+  /** Value converted to the units of `LAB_PARAMETERS`. */
+  value: number;
+  /** Set when the report's unit differs from ours, e.g. "ppm → kg/ha". */
+  conversion?: string;
+  error?: string;
+}
+
+export interface UnmappedLabColumn {
+  source: string;
+  raw: string;
+}
+
+export interface LabReportSample {
+  label: string;
+  mapped: MappedLabValue[];
+  unmapped: UnmappedLabColumn[];
+}
+
+export interface LabReport {
+  fileName: string;
+  format: LabReportFormat;
+  samples: LabReportSample[];
+}
+
+export class LabReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LabReportError";
+  }
+}
+
+// Lab reports are a few pages at most
+export const MAX_LAB_REPORT_BYTES = 5 * 1024 * 1024;
+
+interface ParameterAlias {
+  key: LabParameterKey;
+  /** Symbols only match when they are the whole label, so "S.No" is not sulphur. */
+  symbols: string[];
+  names: RegExp;
+  /** Factor from the oxide form some labs report (P₂O₅, K₂O) to the element. */
+  oxide?: { pattern: RegExp; factor: number };
+}
+
+const ALIASES: ParameterAlias[] = [
+  { key: "ph", symbols: ["ph"], names: /\bph\b|soil reaction/ },
+  { key: "ec", symbols: ["ec"], names: /conductivity|\bec\b/ },
+  { key: "organicCarbon", symbols: ["oc", "soc"], names: /organic carbon/ },
+  { key: "nitrogen", symbols: ["n"], names: /nitrogen/ },
+  {
+    key: "phosphorus",
+    symbols: ["p", "p2o5"],
+    names: /phosph|p2o5/,
+    oxide: { pattern: /p2o5/, factor: 0.4364 },
+  },
+  {
+    key: "potassium",
+    symbols: ["k", "k2o"],
+    names: /potass|k2o/,
+    oxide: { pattern: /k2o/, factor: 0.8301 },
+  },
+  { key: "sulfur", symbols: ["s"], names: /sulph|sulfur/ },
+  { key: "zinc", symbols: ["zn"], names: /zinc/ },
+  { key: "iron", symbols: ["fe"], names: /\biron\b/ },
+  { key: "manganese", symbols: ["mn"], names: /manganese/ },
+  { key: "copper", symbols: ["cu"], names: /copper/ },
+  { key: "boron", symbols: ["b"], names: /boron/ },
+  { key: "sand", symbols: [], names: /\bsand\b/ },
+  { key: "silt", symbols: [], names: /\bsilt\b/ },
+  { key: "clay", symbols: [], names: /\bclay\b/ },
+];
+
+// Words that qualify a parameter without changing which one it is
+const QUALIFIERS = /\b(available|avail|total|extractable|soil|dtpa|hot water soluble)\b/g;
+// ppm of N, P or K in the plough layer (~2.24 million kg of soil per hectare) to kg/ha
+const PPM_TO_KG_HA = 2.24;
+
+const NUMBER = /^[<>≤≥~]?\s*(\d+(?:[.,]\d+)?)/;
+const INLINE_VALUE = /^(.*?[a-z)\]])\s*[:=]?\s+([<>≤≥~]?\d+(?:[.,]\d+)?)\s*(.*)$/i;
+// A cell that holds only a unit, or a dash for none
+const UNIT_CELL = /^(?:[-–—]|%|ppm|(?:mg|g|kg)\s*\/\s*(?:kg|ha|l)|[dmµμu]s\s*\/\s*[cm]m|mmhos?\s*\/\s*cm|meq.*|cmol.*)$/i;
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/₂/g, "2").replace(/₅/g, "5").replace(/\s+/g, " ").trim();
+}
+
+/** Splits "Available Nitrogen (kg/ha)" into the name and any bracketed unit. */
+function splitLabel(label: string) {
+  const text = normalize(label);
+  const brackets = [...text.matchAll(/[([]([^)\]]*)[)\]]/g)].map((m) => m[1]);
+  const name = text.replace(/[([][^)\]]*[)\]]/g, " ").replace(/\s+/g, " ").trim();
+  return { name, brackets };
+}
+
+function matchParameter(label: string): ParameterAlias | null {
+  const { name, brackets } = splitLabel(label);
+  const bare = name.replace(QUALIFIERS, " ").replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
+
+  for (const alias of ALIASES) {
+    if (alias.symbols.includes(bare) || alias.names.test(name)) return alias;
+  }
+  // "Available (N)" style labels carry the symbol in brackets
+  for (const alias of ALIASES) {
+    if (brackets.some((b) => alias.symbols.includes(b.replace(/[^a-z0-9]/g, "")))) return alias;
+  }
+  return null;
+}
+
+function parseNumber(cell: string) {
+  const match = cell.trim().match(NUMBER);
+  return match ? Number(match[1].replace(",", ".")) : null;
+}
+
+/**
+ * Converts a reported value to our units. The unit is read from the label's
+ * brackets or from a separate unit cell; unitless values are taken as-is.
+ */
+function convert(alias: ParameterAlias, label: string, unit: string, value: number) {
+  const text = normalize(`${label} ${unit}`);
+  let result = value;
+  const steps: string[] = [];
+
+  if (alias.oxide?.pattern.test(text)) {
+    result *= alias.oxide.factor;
+    steps.push(alias.key === "phosphorus" ? "P₂O₅ → P" : "K₂O → K");
+  }
+
+  switch (alias.key) {
+    case "nitrogen":
+    case "phosphorus":
+    case "potassium":
+      if (/ppm|mg\s*\/\s*kg/.test(text)) {
+        result *= PPM_TO_KG_HA;
+        steps.push("ppm → kg/ha");
+      }
+      break;
+    case "organicCarbon":
+      if (/g\s*\/\s*kg/.test(text)) {
+        result /= 10;
+        steps.push("g/kg → %");
+      }
+      break;
+    case "ec":
+      if (/[µμu]s\s*\/\s*cm/.test(text)) {
+        result /= 1000;
+        steps.push("µS/cm → dS/m");
+      }
+      break;
+  }
+
+  return {
+    value: Math.round(result * 1000) / 1000,
+    conversion: steps.length > 0 ? steps.join(", ") : undefined,
+  };
+}
+
+function toMapped(alias: ParameterAlias, source: string, raw: string, unit = ""): MappedLabValue | null {
+  const number = parseNumber(raw);
+  if (number === null) return null;
+  return { key: alias.key, source, raw: raw.trim(), ...convert(alias, source, unit, number) };
+}
+
+/** Flags out-of-range values and duplicate parameters, keeping the first of each. */
+function finishSample(label: string, mapped: MappedLabValue[], unmapped: UnmappedLabColumn[]): LabReportSample {
+  const unique: MappedLabValue[] = [];
+  for (const entry of mapped) {
+    if (unique.some((u) => u.key === entry.key)) {
+      unmapped.push({ source: entry.source, raw: entry.raw });
+    } else {
+      unique.push(entry);
+    }
+  }
+
+  const { errors } = validateLabValues(
+    Object.fromEntries(unique.map((entry) => [entry.key, String(entry.value)]))
+  );
+  const order = LAB_PARAMETERS.map((p) => p.key);
+  return {
+    label,
+    mapped: unique
+      .map((entry) => ({ ...entry, error: errors[entry.key] }))
+      .sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key)),
+    unmapped,
+  };
+}
+
+/**
+ * Reads parameters from a table of cells. Two layouts are recognised: a
+ * header row naming several parameters with one row per sample beneath it,
+ * and one parameter per row ("pH | 7.2 | –"), as on a Soil Health Card.
+ * Cells beside a value that are not its unit, such as a rating, are listed
+ * as unmapped.
+ */
+export function parseLabTable(rows: string[][]): LabReportSample[] {
+  const cleaned = rows
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some((cell) => cell !== ""));
+
+  const headerIndex = cleaned.findIndex(
+    (row, i) =>
+      row.filter((cell) => matchParameter(cell)).length >= 2 &&
+      cleaned[i + 1]?.some((cell, col) => matchParameter(row[col] ?? "") && parseNumber(cell) !== null)
+  );
+
+  if (headerIndex >= 0) {
+    const header = cleaned[headerIndex];
+    const columns = header.map((cell) => (cell ? matchParameter(cell) : null));
+    const samples: LabReportSample[] = [];
+
+    for (const row of cleaned.slice(headerIndex + 1)) {
+      if (!row.some((cell, col) => columns[col] && parseNumber(cell) !== null)) continue;
+
+      const mapped: MappedLabValue[] = [];
+      const unmapped: UnmappedLabColumn[] = [];
+      header.forEach((source, col) => {
+        const raw = row[col] ?? "";
+        const alias = columns[col];
+        const entry = alias && toMapped(alias, source, raw);
+        if (entry) mapped.push(entry);
+        else if (raw) unmapped.push({ source: source || `Column ${col + 1}`, raw });
+      });
+
+      const name = row.find((cell, col) => !columns[col] && cell && parseNumber(cell) === null);
+      samples.push(finishSample(name ?? `Sample ${samples.length + 1}`, mapped, unmapped));
+    }
+    return samples;
+  }
+
+  const mapped: MappedLabValue[] = [];
+  const unmapped: UnmappedLabColumn[] = [];
+  // Names the extra columns ("Rating", "Unit") when the table has a header row
+  let header: string[] = [];
+  for (const row of cleaned) {
+    const labelIndex = row.findIndex((cell) => /[a-z]/i.test(cell) && parseNumber(cell) === null);
+    if (labelIndex < 0) continue;
+    const valueIndex = row.findIndex((cell, i) => i > labelIndex && parseNumber(cell) !== null);
+
+    let label = row[labelIndex];
+    let raw: string;
+    let unit = "";
+    const extras: UnmappedLabColumn[] = [];
+    if (valueIndex >= 0) {
+      raw = row[valueIndex];
+      row.forEach((cell, col) => {
+        if (col <= valueIndex || !cell) return;
+        const name = header[col];
+        if (name ? /^units?$/i.test(name) : UNIT_CELL.test(cell)) unit = `${unit} ${cell}`.trim();
+        else if (!/^[-–—]$/.test(cell)) extras.push({ source: `${label}: ${name || `Column ${col + 1}`}`, raw: cell });
+      });
+    } else {
+      // PDFs sometimes keep "Organic Carbon 0.52 %" as a single text item
+      const inline = label.match(INLINE_VALUE);
+      if (!inline) {
+        if (row.length >= 2 && row.every((cell) => parseNumber(cell) === null)) header = row;
+        continue;
+      }
+      [, label, raw, unit = ""] = inline;
+    }
+
+    const alias = matchParameter(label);
+    const entry = alias && toMapped(alias, label, raw, unit);
+    if (entry) mapped.push(entry);
+    else unmapped.push({ source: label, raw });
+    unmapped.push(...extras);
+  }
+  return mapped.length > 0 || unmapped.length > 0 ? [finishSample("Sample 1", mapped, unmapped)] : [];
+}
+
+/** Splits CSV text into rows, detecting comma, semicolon or tab delimiters. */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== "") ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Rebuilds table rows from a PDF's text layer by grouping text items that
+ * share a baseline. Scanned PDFs have no text layer and yield no rows.
+ */
+async function readPdfRows(data: ArrayBuffer): Promise<string[][]> {
+  const { extractTextItems } = await import("unpdf");
+  const { items } = await extractTextItems(new Uint8Array(data));
+
+  const rows: string[][] = [];
+  for (const page of items) {
+    const lines: { y: number; items: typeof page }[] = [];
+    for (const item of page) {
+      if (!item.str.trim()) continue;
+      const line = lines.find((l) => Math.abs(l.y - item.y) <= Math.max(2, item.height / 2));
+      if (line) line.items.push(item);
+      else lines.push({ y: item.y, items: [item] });
+    }
+    // PDF coordinates grow upwards, so the top line has the largest y
+    lines.sort((a, b) => b.y - a.y);
+    for (const line of lines) {
+      rows.push(line.items.sort((a, b) => a.x - b.x).map((item) => item.str.trim()));
+    }
+  }
+  return rows;
+}
+
+function detectFormat(file: File): LabReportFormat | null {
+  const name = file.name.toLowerCase();
+  if (file.type === "application/pdf" || name.endsWith(".pdf")) return "pdf";
+  if (["text/csv", "application/vnd.ms-excel", "text/plain"].includes(file.type) || /\.(csv|txt)$/.test(name)) {
+    return "csv";
+  }
+  return null;
+}
+
+/** Reads a CSV export or a text-based PDF lab report in the browser. */
+export async function readLabReport(file: File): Promise<LabReport> {
+  const format = detectFormat(file);
+  if (!format) throw new LabReportError("Choose a CSV or PDF lab report");
+  if (file.size > MAX_LAB_REPORT_BYTES) {
+    throw new LabReportError(`Lab reports must be smaller than ${MAX_LAB_REPORT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const rows = format === "pdf" ? await readPdfRows(await file.arrayBuffer()) : parseCsv(await file.text());
+  if (format === "pdf" && rows.length === 0) {
+    throw new LabReportError("This PDF has no selectable text. Scanned reports need to be entered by hand.");
+  }
+
+  const samples = parseLabTable(rows);
+  if (samples.length === 0) {
+    throw new LabReportError("No soil test values were found in this report");
+  }
+  return { fileName: file.name, format, samples };
+}
+
+/** Collects a sample's valid mapped values for attaching to the analysis. */
+export function sampleLabValues(sample: LabReportSample): LabValues {
+  const values: LabValues = {};
+  for (const entry of sample.mapped) {
+    if (!entry.error) values[entry.key] = entry.value;
+  }
+  return values;
+}
@@ -0,0 +1,146 @@
+import { organicMatterFromCarbon } from "@/lib/soil/condition";
+import { getTextureClass, scoreTextureClasses, usdaTextureClass } from "@/lib/soil/texture";
+import type { LabParameterKey, LabValues, SoilResult } from "@/lib/soil/types";
+
+export interface LabParameter {
+  key: LabParameterKey;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Units follow the Soil Health Card format
+export const LAB_PARAMETERS: LabParameter[] = [
+  { key: "ph", label: "pH", unit: "", min: 0, max: 14, step: 0.1 },
+  { key: "ec", label: "Electrical conductivity (EC)", unit: "dS/m", min: 0, max: 50, step: 0.01 },
+  { key: "organicCarbon", label: "Organic carbon (OC)", unit: "%", min: 0, max: 20, step: 0.01 },
+  { key: "nitrogen", label: "Available nitrogen (N)", unit: "kg/ha", min: 0, max: 2000, step: 1 },
+  { key: "phosphorus", label: "Available phosphorus (P)", unit: "kg/ha", min: 0, max: 500, step: 0.1 },
+  { key: "potassium", label: "Available potassium (K)", unit: "kg/ha", min: 0, max: 3000, step: 1 },
+  { key: "sulfur", label: "Available sulphur (S)", unit: "ppm", min: 0, max: 500, step: 0.1 },
+  { key: "zinc", label: "Zinc (Zn)", unit: "ppm", min: 0, max: 100, step: 0.01 },
+  { key: "iron", label: "Iron (Fe)", unit: "ppm", min: 0, max: 500, step: 0.01 },
+  { key: "manganese", label: "Manganese (Mn)", unit: "ppm", min: 0, max: 500, step: 0.01 },
+  { key: "copper", label: "Copper (Cu)", unit: "ppm", min: 0, max: 100, step: 0.01 },
+  { key: "boron", label: "Boron (B)", unit: "ppm", min: 0, max: 50, step: 0.01 },
+  { key: "sand", label: "Sand", unit: "%", min: 0, max: 100, step: 1 },
+  { key: "silt", label: "Silt", unit: "%", min: 0, max: 100, step: 1 },
+  { key: "clay", label: "Clay", unit: "%", min: 0, max: 100, step: 1 },
+];
+
+const TEXTURE_KEYS: LabParameterKey[] = ["sand", "silt", "clay"];
+// Lab particle-size results are reported to the nearest percent or two
+const TEXTURE_SUM_TOLERANCE = 2;
+
+export function getLabParameter(key: LabParameterKey) {
+  return LAB_PARAMETERS.find((p) => p.key === key)!;
+}
+
+export interface LabValidation {
+  values: LabValues;
+  errors: Partial<Record<LabParameterKey, string>>;
+}
+
+/**
+ * Parses form input into lab values. Blank fields are skipped; anything
+ * non-numeric or outside the parameter's range is reported per field.
+ * Sand, silt and clay must be given together and add up to 100%.
+ */
+export function validateLabValues(input: Partial<Record<LabParameterKey, string>>): LabValidation {
+  const values: LabValues = {};
+  const errors: LabValidation["errors"] = {};
+
+  for (const parameter of LAB_PARAMETERS) {
+    const raw = input[parameter.key]?.trim();
+    if (!raw) continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      errors[parameter.key] = "Enter a number";
+    } else if (value < parameter.min || value > parameter.max) {
+      errors[parameter.key] = `Must be between ${parameter.min} and ${parameter.max}${parameter.unit ? ` ${parameter.unit}` : ""}`;
+    } else {
+      values[parameter.key] = value;
+    }
+  }
+
+  const texture = TEXTURE_KEYS.filter((key) => values[key] !== undefined);
+  if (texture.length > 0 && texture.length < TEXTURE_KEYS.length) {
+    for (const key of TEXTURE_KEYS) {
+      if (values[key] === undefined && !errors[key]) errors[key] = "Enter sand, silt and clay together";
+    }
+  } else if (texture.length === TEXTURE_KEYS.length) {
+    const sum = values.sand! + values.silt! + values.clay!;
+    if (Math.abs(sum - 100) > TEXTURE_SUM_TOLERANCE) {
+      errors.clay = `Sand, silt and clay add up to ${sum}%, not 100%`;
+    }
+  }
+
+  return { values, errors };
+}
+
+export function hasLabValues(values: LabValues | null | undefined): values is LabValues {
+  return !!values && Object.keys(values).length > 0;
+}
+
+/**
+ * The texture class read from a measured sand, silt and clay split. The only
+ * remaining uncertainty is rounding in the lab report, so there are no
+ * runner-up classes.
+ */
+function measuredTexture(lab: LabValues) {
+  if (lab.sand === undefined || lab.silt === undefined || lab.clay === undefined) return null;
+
+  // Normalise small rounding differences so the point sits on the triangle
+  const sum = lab.sand + lab.silt + lab.clay;
+  const sand = Math.round((lab.sand / sum) * 100);
+  const clay = Math.round((lab.clay / sum) * 100);
+  const silt = 100 - sand - clay;
+  const uncertainty = 1;
+
+  const type = usdaTextureClass(sand, silt, clay);
+  const others = scoreTextureClasses({ sand, clay, uncertainty }).filter((score) => score.type !== type);
+
+  return {
+    type,
+    description: getTextureClass(type)!.description,
+    confidence: 100,
+    alternatives: [],
+    texture: {
+      sand,
+      silt,
+      clay,
+      uncertainty,
+      boundaryDistance: Math.round(Math.min(...others.map((score) => score.distance)) * 10) / 10,
+      source: "lab" as const,
+    },
+  };
+}
+
+/**
+ * Attaches lab values to an image result. A measured texture replaces the
+ * colour-based estimate, and measured organic carbon replaces the
+ * colour-based organic matter band.
+ */
+export function mergeLabValues(result: SoilResult, lab: LabValues): SoilResult {
+  if (lab.organicCarbon !== undefined) {
+    result = { ...result, organicMatter: organicMatterFromCarbon(lab.organicCarbon) };
+  }
+  return { ...result, ...measuredTexture(lab), lab };
+}
+
+/**
+ * A result from lab values alone, for a sample with no photo. It needs the
+ * measured texture; colour and moisture are left out.
+ */
+export function labSoilResult(lab: LabValues): SoilResult | null {
+  const measured = measuredTexture(lab);
+  if (!measured) return null;
+  return {
+    ...measured,
+    organicMatter: lab.organicCarbon !== undefined ? organicMatterFromCarbon(lab.organicCarbon) : undefined,
+    lab,
+  };
+}
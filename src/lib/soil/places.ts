@@ -0,0 +1,35 @@
+import type { LocationData } from "@/lib/soil/types";
+
+// Countries, states and provinces wholly south of the equator, as users type them
+const SOUTHERN_PLACES = [
+  "Australia", "New South Wales", "NSW", "Victoria", "Queensland", "QLD", "Western Australia", "South Australia",
+  "Tasmania", "Northern Territory", "Australian Capital Territory", "ACT",
+  "New Zealand", "South Africa", "Lesotho", "Eswatini", "Namibia", "Botswana", "Zimbabwe", "Mozambique",
+  "Madagascar", "Argentina", "Chile", "Uruguay", "Paraguay", "Bolivia",
+];
+
+// The United States and its states, by name and postal abbreviation
+export const US_PLACES = [
+  "United States", "United States of America", "USA", "US",
+  "Alabama", "AL", "Alaska", "AK", "Arizona", "AZ", "Arkansas", "AR", "California", "CA", "Colorado", "CO",
+  "Connecticut", "CT", "Delaware", "DE", "Florida", "FL", "Georgia", "GA", "Hawaii", "HI", "Idaho", "ID",
+  "Illinois", "IL", "Indiana", "IN", "Iowa", "IA", "Kansas", "KS", "Kentucky", "KY", "Louisiana", "LA",
+  "Maine", "ME", "Maryland", "MD", "Massachusetts", "MA", "Michigan", "MI", "Minnesota", "MN",
+  "Mississippi", "MS", "Missouri", "MO", "Montana", "MT", "Nebraska", "NE", "Nevada", "NV",
+  "New Hampshire", "NH", "New Jersey", "NJ", "New Mexico", "NM", "New York", "NY", "North Carolina", "NC",
+  "North Dakota", "ND", "Ohio", "OH", "Oklahoma", "OK", "Oregon", "OR", "Pennsylvania", "PA",
+  "Rhode Island", "RI", "South Carolina", "SC", "South Dakota", "SD", "Tennessee", "TN", "Texas", "TX",
+  "Utah", "UT", "Vermont", "VT", "Virginia", "VA", "Washington", "WA", "West Virginia", "WV",
+  "Wisconsin", "WI", "Wyoming", "WY",
+];
+
+/** Whether a typed state or country is one of `names`, ignoring case. */
+export function isPlaceNamed(location: LocationData, names: string[]) {
+  const name = location.state?.trim().toLowerCase();
+  return !!name && names.some((other) => other.toLowerCase() === name);
+}
+
+/** Whether a location is south of the equator, from its coordinates or else the place typed in. */
+export function isSouthernHemisphere(location: LocationData) {
+  return location.lat !== undefined ? location.lat < 0 : isPlaceNamed(location, SOUTHERN_PLACES);
+}
@@ -0,0 +1,39 @@
+export type AnalysisStage = "decoding" | "quality" | "colour" | "classification" | "postProcessing";
+
+export interface AnalysisStageInfo {
+  id: AnalysisStage;
+  label: string;
+  /** Share of the whole analysis completed when this stage starts, 0–100. */
+  start: number;
+}
+
+// Start points follow typical timings for a phone photo with the server reachable
+export const ANALYSIS_STAGES: AnalysisStageInfo[] = [
+  { id: "decoding", label: "Decoding image", start: 0 },
+  { id: "quality", label: "Checking image quality", start: 25 },
+  { id: "colour", label: "Extracting soil colour", start: 40 },
+  { id: "classification", label: "Classifying soil", start: 55 },
+  { id: "postProcessing", label: "Finishing up", start: 90 },
+];
+
+export function getAnalysisStage(id: AnalysisStage) {
+  return ANALYSIS_STAGES.find((stage) => stage.id === id)!;
+}
+
+/** True for the error raised by `AbortSignal` and by `fetch` when aborted. */
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Resolves on the next macrotask so the progress bar can repaint and a
+ * Cancel click can be handled between synchronous pixel passes.
+ */
+export function yieldToBrowser(signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    setTimeout(() => {
+      if (signal?.aborted) reject(signal.reason);
+      else resolve();
+    }, 0);
+  });
+}
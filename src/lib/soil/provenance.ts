@@ -0,0 +1,54 @@
+import type { ResultProvenance } from "@/lib/soil/types";
+
+/**
+ * Version of the data behind the results: texture knowledge, taxonomy
+ * mapping and crop profiles. Bump it whenever any of them changes.
+ */
+export const KNOWLEDGE_BASE_VERSION = "1.6.0";
+
+// FNV-1a, for browsers that only expose Web Crypto in secure contexts
+function fnv1a(bytes: Uint8Array) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Hashes the inputs of a result: the encoded image bytes, when there are
+ * any, followed by the JSON of everything else that shaped it. The algorithm
+ * is part of the returned string so hashes stay comparable across clients.
+ */
+export async function hashInputs(data: Uint8Array | null, params: unknown): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(params ?? null));
+  const bytes = new Uint8Array((data?.length ?? 0) + json.length);
+  if (data) bytes.set(data);
+  bytes.set(json, data?.length ?? 0);
+
+  if (!globalThis.crypto?.subtle) return `fnv1a:${fnv1a(bytes)}`;
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", bytes);
+  return `sha256:${Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Provenance of a result combined from several images. Providers that
+ * differ, such as a server result mixed with an on-device fallback, are
+ * all named; the hash covers the images' own hashes in order.
+ */
+export async function combineProvenance(items: ResultProvenance[]): Promise<ResultProvenance> {
+  const unique = (values: string[]) => Array.from(new Set(values)).join(" + ");
+  return {
+    provider: unique(items.map((item) => item.provider)),
+    version: unique(items.map((item) => item.version)),
+    knowledgeBase: unique(items.map((item) => item.knowledgeBase)),
+    inputHash: await hashInputs(null, items.map((item) => item.inputHash)),
+  };
+}
+
+/** Short form of a hash for display; the full value is kept on the result. */
+export function shortHash(hash: string) {
+  const [algorithm, value] = hash.split(":");
+  return value ? `${algorithm}:${value.slice(0, 12)}` : hash.slice(0, 12);
+}
@@ -0,0 +1,40 @@
+import sharp from "sharp";
+import { applyCalibration } from "@/lib/soil/calibration";
+import { CLASSIFIER_VERSION, classifySoilImage } from "@/lib/soil/classifier";
+import { ANALYSIS_MAX_SIDE, regionToPixels } from "@/lib/soil/image";
+import { ImageDecodeError, type SoilModelProvider } from "@/lib/soil/providers/types";
+
+/** Runs the colour classifier used in the browser against a server-side decode. */
+export const heuristicProvider: SoilModelProvider = {
+  id: "heuristic",
+  version: CLASSIFIER_VERSION,
+
+  async analyze({ data, region, calibration }) {
+    let decoded: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      const image = sharp(data).rotate();
+      if (region) {
+        const { width = 1, height = 1, orientation = 1 } = await sharp(data).metadata();
+        // EXIF orientations 5–8 swap width and height once rotated upright
+        const [uprightWidth, uprightHeight] = orientation >= 5 ? [height, width] : [width, height];
+        image.extract(regionToPixels(region, uprightWidth, uprightHeight));
+      }
+
+      decoded = await image
+        .resize(ANALYSIS_MAX_SIDE, ANALYSIS_MAX_SIDE, { fit: "inside", withoutEnlargement: true })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    } catch {
+      throw new ImageDecodeError();
+    }
+
+    const { data: raw, info } = decoded;
+    const pixels = {
+      data: new Uint8ClampedArray(raw.buffer, raw.byteOffset, raw.byteLength),
+      width: info.width,
+      height: info.height,
+    };
+    return classifySoilImage(calibration ? applyCalibration(pixels, calibration) : pixels);
+  },
+};
@@ -0,0 +1,29 @@
+import { heuristicProvider } from "@/lib/soil/providers/heuristic";
+import { mockProvider } from "@/lib/soil/providers/mock";
+import type { SoilModelProvider } from "@/lib/soil/providers/types";
+
+export { ImageDecodeError, type SoilImageInput, type SoilModelProvider } from "@/lib/soil/providers/types";
+
+const providers = new Map<string, SoilModelProvider>([
+  [heuristicProvider.id, heuristicProvider],
+  [mockProvider.id, mockProvider],
+]);
+
+export const DEFAULT_PROVIDER_ID = "heuristic";
+
+/** Makes a provider available to `getSoilModelProvider` under its `id`. */
+export function registerSoilModelProvider(provider: SoilModelProvider) {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Resolves the provider named by `SOIL_MODEL_PROVIDER`, falling back to the
+ * built-in heuristic provider.
+ */
+export function getSoilModelProvider(id = process.env.SOIL_MODEL_PROVIDER || DEFAULT_PROVIDER_ID) {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown soil model provider "${id}"`);
+  }
+  return provider;
+}
@@ -0,0 +1,26 @@
+import type { SoilModelProvider } from "@/lib/soil/providers/types";
+
+/** Returns a fixed result without reading the image, for offline testing. */
+export const mockProvider: SoilModelProvider = {
+  id: "mock",
+  version: "1.0.0",
+
+  async analyze({ region, calibration }) {
+    return {
+      type: "Clay Loam",
+      confidence: 88,
+      description: "Rich, fertile soil ideal for most crops",
+      color: "#8B4513",
+      munsell: { hue: "5YR", value: 3.5, chroma: 10, notation: "5YR 3.5/10" },
+      alternatives: [
+        { type: "Loam", probability: 0.07 },
+        { type: "Clay", probability: 0.05 },
+      ],
+      texture: { sand: 33, silt: 34, clay: 33, uncertainty: 5, boundaryDistance: 5.2, source: "image" },
+      moisture: { state: "moist", confidence: 62 },
+      organicMatter: { band: "medium", range: [2, 4], confidence: 48, source: "image" },
+      region,
+      calibration,
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import type { ColorCalibration, SoilRegion, SoilResult } from "@/lib/soil/types";
+
+export interface SoilImageInput {
+  /** Encoded image bytes as uploaded (JPEG, PNG, ...). */
+  data: Uint8Array;
+  mimeType: string;
+  /** Only this part of the image should be classified. */
+  region?: SoilRegion;
+  /** Colour correction to apply before classifying. */
+  calibration?: ColorCalibration;
+}
+
+/** Thrown by a provider when the uploaded bytes are not an image it can decode. */
+export class ImageDecodeError extends Error {
+  constructor(message = "The image could not be decoded") {
+    super(message);
+    this.name = "ImageDecodeError";
+  }
+}
+
+/**
+ * A soil model behind `/api/analyze`. Implementations return null when the
+ * image contains nothing they can classify as soil, and throw
+ * `ImageDecodeError` when it can't be decoded.
+ */
+export interface SoilModelProvider {
+  id: string;
+  version: string;
+  analyze(input: SoilImageInput): Promise<SoilResult | null>;
+}
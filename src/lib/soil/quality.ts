@@ -0,0 +1,157 @@
+import { rgbToLab } from "@/lib/soil/color";
+import { isSoilLike, type PixelData } from "@/lib/soil/features";
+
+export type QualityStatus = "pass" | "warn" | "block";
+
+export interface QualityCheck {
+  id: "sharpness" | "exposure" | "colorCast" | "soilCoverage";
+  label: string;
+  /** 0–100, higher is better. */
+  score: number;
+  status: QualityStatus;
+  /** What the user should do about it; empty when the check passes. */
+  guidance: string;
+}
+
+export interface QualityReport {
+  status: QualityStatus;
+  checks: QualityCheck[];
+}
+
+const MAX_SAMPLES = 40000;
+
+function luma(r: number, g: number, b: number) {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function statusFor(score: number, blockBelow: number, warnBelow: number): QualityStatus {
+  if (score < blockBelow) return "block";
+  if (score < warnBelow) return "warn";
+  return "pass";
+}
+
+/**
+ * Variance of the Laplacian of the luma channel. Sharp photos of soil have
+ * plenty of grain edges; a blurred one has almost none.
+ */
+function checkSharpness({ data, width, height }: PixelData): QualityCheck {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = luma(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  const variance = n > 0 ? sumSq / n - (sum / n) ** 2 : 0;
+  const score = Math.round(Math.min(100, (variance / 150) * 100));
+  const status = statusFor(score, 10, 40);
+
+  return {
+    id: "sharpness",
+    label: "Sharpness",
+    score,
+    status,
+    guidance: status === "pass" ? "" : "The photo is blurry. Hold the phone steady and tap the soil to focus before shooting.",
+  };
+}
+
+function checkExposure(lumas: number[]): QualityCheck {
+  const mean = lumas.reduce((acc, l) => acc + l, 0) / lumas.length;
+  const clipped = lumas.filter((l) => l > 250).length / lumas.length;
+  const shaded = lumas.filter((l) => l < 25).length / lumas.length;
+
+  // Soil photos are darker than average scenes, so the target is a mid-dark 110
+  const meanPenalty = Math.abs(mean - 110) / 110;
+  const score = Math.round(Math.max(0, 100 * (1 - meanPenalty - clipped * 1.5 - shaded)));
+
+  let guidance = "";
+  if (mean < 45 || shaded > 0.4) {
+    guidance = "The photo is too dark or partly in shade. Move the sample into even daylight without your own shadow on it.";
+  } else if (mean > 200 || clipped > 0.2) {
+    guidance = "The photo is over-exposed. Avoid direct midday sun or flash; shade the whole sample evenly.";
+  }
+  const status: QualityStatus = !guidance ? "pass" : score < 25 ? "block" : "warn";
+
+  return { id: "exposure", label: "Exposure", score, status, guidance };
+}
+
+/**
+ * Soil is never blue, green or magenta on average, so a frame that averages
+ * to one of those hues points to a white-balance problem or a filter.
+ */
+function checkColorCast(mean: { r: number; g: number; b: number }): QualityCheck {
+  const { a, b } = rgbToLab(mean);
+  const castStrength = Math.max(0, -b, -a - 2, a > 20 && b < 5 ? a - 20 : 0);
+  const score = Math.round(Math.max(0, 100 - castStrength * 8));
+  const status = statusFor(score, 20, 70);
+
+  return {
+    id: "colorCast",
+    label: "Colour cast",
+    score,
+    status,
+    guidance: status === "pass" ? "" : "The colours look tinted. Turn off filters and night mode, and shoot in natural daylight.",
+  };
+}
+
+function checkSoilCoverage(soilFraction: number): QualityCheck {
+  const score = Math.round(soilFraction * 100);
+  const status = statusFor(score, 30, 60);
+
+  return {
+    id: "soilCoverage",
+    label: "Soil in frame",
+    score,
+    status,
+    guidance: status === "block"
+      ? "This doesn't look like a soil photo. Fill the frame with bare soil."
+      : status === "warn"
+        ? "Much of the frame is not soil. Move closer so grass, tools and sky are out of the shot."
+        : "",
+  };
+}
+
+/** Scores a photo for sharpness, exposure, colour cast and soil coverage. */
+export function assessImageQuality(pixels: PixelData): QualityReport {
+  const { data, width, height } = pixels;
+  const stride = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_SAMPLES)));
+
+  const lumas: number[] = [];
+  const mean = { r: 0, g: 0, b: 0 };
+  let soil = 0;
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const i = (y * width + x) * 4;
+      const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+      lumas.push(luma(r, g, b));
+      mean.r += r;
+      mean.g += g;
+      mean.b += b;
+      if (isSoilLike(rgbToLab({ r, g, b }))) soil++;
+    }
+  }
+  const n = lumas.length;
+
+  // Most fundamental first: the first failing check is the one users are told about
+  const checks = [
+    checkSoilCoverage(soil / n),
+    checkSharpness(pixels),
+    checkExposure(lumas),
+    checkColorCast({ r: mean.r / n, g: mean.g / n, b: mean.b / n }),
+  ];
+  const status: QualityStatus = checks.some((c) => c.status === "block")
+    ? "block"
+    : checks.some((c) => c.status === "warn") ? "warn" : "pass";
+
+  return { status, checks };
+}
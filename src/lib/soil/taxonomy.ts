@@ -0,0 +1,233 @@
+import { indianState, indianStateByName } from "@/lib/soil/india";
+import { US_PLACES, isPlaceNamed } from "@/lib/soil/places";
+import type { LocationData, MunsellColor, SoilResult } from "@/lib/soil/types";
+
+export type TaxonomySystem = "india" | "usda" | "wrb";
+
+export interface TaxonomySystemInfo {
+  id: TaxonomySystem;
+  label: string;
+  description: string;
+}
+
+export const TAXONOMY_SYSTEMS: TaxonomySystemInfo[] = [
+  {
+    id: "india",
+    label: "Indian soil groups",
+    description: "The major soil groups of India as mapped by ICAR",
+  },
+  {
+    id: "usda",
+    label: "USDA texture classes",
+    description: "The twelve classes of the USDA soil texture triangle",
+  },
+  {
+    id: "wrb",
+    label: "WRB reference groups",
+    description: "Reference soil groups of the FAO World Reference Base",
+  },
+];
+
+export function getTaxonomySystem(id: TaxonomySystem) {
+  return TAXONOMY_SYSTEMS.find((system) => system.id === id)!;
+}
+
+type IndianSoilGroup = "alluvial" | "black" | "red" | "laterite" | "arid" | "saline" | "peaty";
+
+interface SoilGroup {
+  name: string;
+  description: string;
+  /** States where the group covers much of the farmland. */
+  states: string[];
+}
+
+const INDIAN_SOIL_GROUPS: Record<IndianSoilGroup, SoilGroup> = {
+  alluvial: {
+    name: "Alluvial",
+    description: "River-laid, yellowish-brown loams of the plains; fertile and easy to work",
+    states: ["Uttar Pradesh", "Bihar", "Punjab", "Haryana", "West Bengal", "Assam"],
+  },
+  black: {
+    name: "Black (Regur)",
+    description: "Dark, clay-rich soil that swells when wet and cracks when dry; holds moisture well, suited to cotton",
+    states: ["Maharashtra", "Gujarat", "Madhya Pradesh", "Telangana"],
+  },
+  red: {
+    name: "Red",
+    description: "Iron-rich, light-textured soil on old crystalline rock; low in nitrogen and organic matter",
+    states: ["Tamil Nadu", "Karnataka", "Andhra Pradesh", "Jharkhand", "Chhattisgarh", "Odisha"],
+  },
+  laterite: {
+    name: "Laterite",
+    description: "Deeply weathered, acidic red soil of high-rainfall areas; leached of bases and low in fertility",
+    states: ["Kerala", "Goa", "Karnataka", "Odisha", "Meghalaya"],
+  },
+  arid: {
+    name: "Arid (Desert)",
+    description: "Sandy, pale soil of dry regions; low in organic matter and often calcareous",
+    states: ["Rajasthan", "Gujarat", "Haryana"],
+  },
+  saline: {
+    name: "Saline & Alkaline",
+    description: "Soil with excess salts or sodium that restrict water uptake and crop growth",
+    states: [],
+  },
+  peaty: {
+    name: "Peaty & Marshy",
+    description: "Waterlogged, dark soil very rich in organic matter",
+    states: ["Kerala", "West Bengal", "Odisha"],
+  },
+};
+
+interface WrbGroup {
+  name: string;
+  description: string;
+}
+
+const WRB_GROUPS: Record<string, WrbGroup> = {
+  Fluvisols: { name: "Fluvisols", description: "Young soils in river, lake or marine deposits" },
+  Vertisols: { name: "Vertisols", description: "Heavy clay soils that shrink and swell, cracking deeply when dry" },
+  Luvisols: { name: "Luvisols", description: "Soils with clay washed into the subsoil and a fair base supply" },
+  Ferralsols: { name: "Ferralsols", description: "Deeply weathered red or yellow soils dominated by iron and aluminium oxides" },
+  Arenosols: { name: "Arenosols", description: "Sandy soils with little profile development" },
+  Calcisols: { name: "Calcisols", description: "Dryland soils with a layer of accumulated lime" },
+  Solonchaks: { name: "Solonchaks", description: "Soils with a high concentration of soluble salts" },
+  Solonetz: { name: "Solonetz", description: "Soils with a dense, sodium-rich clay subsoil" },
+  Histosols: { name: "Histosols", description: "Soils formed in thick layers of organic material" },
+  Cambisols: { name: "Cambisols", description: "Moderately developed soils with little accumulated clay, iron or lime" },
+};
+
+const INDIAN_TO_WRB: Record<IndianSoilGroup, string> = {
+  alluvial: "Fluvisols",
+  black: "Vertisols",
+  red: "Luvisols",
+  laterite: "Ferralsols",
+  arid: "Calcisols",
+  saline: "Solonchaks",
+  peaty: "Histosols",
+};
+
+// EC, in dS/m, and pH at which a soil counts as saline or sodic
+const SALINE_EC = 4;
+const SODIC_PH = 8.5;
+
+export interface TaxonomyClass {
+  system: TaxonomySystem;
+  name: string;
+  description: string;
+  /** What the mapping was based on, for display. */
+  basis: string[];
+}
+
+/**
+ * How many 2.5 hue steps redder than 10YR a Munsell hue is. Red soils sit
+ * at 5YR and redder; alluvium and desert sands at 10YR and yellower.
+ */
+function hueRedness(hue: string) {
+  const match = /^([\d.]+)(YR|R|Y)$/.exec(hue);
+  if (!match) return 0;
+  const family = { R: 0, YR: 10, Y: 20 }[match[2] as "R" | "YR" | "Y"];
+  return (20 - (family + Number(match[1]))) / 2.5;
+}
+
+/**
+ * Scores each Indian soil group from texture, colour, organic matter, any lab
+ * pH and EC, and where the sample was taken. Salinity can only be seen in lab
+ * values, and decides the group outright when it is.
+ */
+function classifyIndianGroup(soil: SoilResult, location: LocationData | null) {
+  const { lab = {}, texture, munsell } = soil;
+  const basis: string[] = [];
+
+  if ((lab.ec ?? 0) >= SALINE_EC || (lab.ph ?? 0) >= SODIC_PH) {
+    basis.push((lab.ec ?? 0) >= SALINE_EC ? `Lab EC ${lab.ec} dS/m` : `Lab pH ${lab.ph}`);
+    return { group: "saline" as const, distinct: true, basis };
+  }
+
+  // Colour only counts when there is a photo; lab-only results have none
+  const byColor = (test: (color: MunsellColor) => boolean, points: number) => (munsell && test(munsell) ? points : 0);
+  const reddish = (color: MunsellColor) => hueRedness(color.hue) >= 2;
+  const dark = munsell !== undefined && munsell.value <= 4;
+  const acidic = lab.ph !== undefined && lab.ph < 5.5;
+  const alkaline = lab.ph !== undefined && lab.ph > 7.5;
+  const state = indianState(location)?.name;
+
+  const scores: Record<IndianSoilGroup, number> = {
+    alluvial: byColor((color) => hueRedness(color.hue) <= 1, 2) + (texture.silt >= 30 ? 1 : 0) + byColor((color) => color.value >= 4 && color.value <= 6, 1),
+    black: (texture.clay >= 35 ? 2 : 0) + byColor((color) => color.value <= 4 && color.chroma <= 4, 2) + byColor((color) => color.chroma <= 2, 1) + (alkaline ? 1 : 0),
+    red: byColor(reddish, 2) + byColor((color) => color.chroma >= 4, 1) + (texture.sand >= 45 ? 1 : 0),
+    laterite: byColor(reddish, 2) + (acidic ? 2 : 0) + (soil.organicMatter?.band === "low" ? 1 : 0),
+    arid: (texture.sand >= 70 ? 2 : 0) + byColor((color) => color.value >= 6, 2) + (alkaline ? 1 : 0),
+    saline: 0,
+    peaty: soil.organicMatter?.band === "high" && dark ? 2 + (soil.moisture?.state === "wet" ? 1 : 0) : 0,
+  };
+  if (state) {
+    for (const group of Object.keys(scores) as IndianSoilGroup[]) {
+      if (INDIAN_SOIL_GROUPS[group].states.includes(state)) scores[group] += 1;
+    }
+  }
+
+  // Ties go to the more widespread group, in declaration order
+  const group = (Object.keys(scores) as IndianSoilGroup[])
+    .reduce((best, g) => (scores[g] > scores[best] ? g : best));
+
+  basis.push(`${soil.type} texture`);
+  if (munsell) basis.push(`Munsell colour ${munsell.notation}`);
+  if (lab.ph !== undefined) basis.push(`Lab pH ${lab.ph}`);
+  if (state && INDIAN_SOIL_GROUPS[group].states.includes(state)) basis.push(`Common in ${state}`);
+  return { group, distinct: scores[group] > 0, basis };
+}
+
+/** Maps a result onto the chosen classification system. */
+export function mapToTaxonomy(
+  soil: SoilResult,
+  system: TaxonomySystem,
+  location: LocationData | null = null
+): TaxonomyClass {
+  if (system === "usda") {
+    return {
+      system,
+      name: soil.type,
+      description: soil.description,
+      basis: [soil.texture.source === "lab" ? "Lab-measured texture" : "Texture estimated from the photo"],
+    };
+  }
+
+  const { group, distinct, basis } = classifyIndianGroup(soil, location);
+  if (system === "india") {
+    const { name, description } = INDIAN_SOIL_GROUPS[group];
+    return { system, name, description, basis };
+  }
+
+  // Nothing distinctive in the sample points to the most common group worldwide
+  let wrb = distinct ? INDIAN_TO_WRB[group] : "Cambisols";
+  if (group === "saline" && (soil.lab?.ec ?? 0) < SALINE_EC) wrb = "Solonetz";
+  else if (group === "arid" && soil.texture.sand >= 70) wrb = "Arenosols";
+  return { system, ...WRB_GROUPS[wrb], basis };
+}
+
+// Rough bounding boxes; the Indian one also takes in neighbouring plains
+// whose soils follow the same groups
+const INDIA_BOUNDS = { minLat: 6, maxLat: 37, minLng: 68, maxLng: 98 };
+const US_BOUNDS = { minLat: 24, maxLat: 50, minLng: -125, maxLng: -66 };
+
+function within({ lat, lng }: LocationData, bounds: typeof INDIA_BOUNDS) {
+  return lat !== undefined && lng !== undefined
+    && lat >= bounds.minLat && lat <= bounds.maxLat && lng >= bounds.minLng && lng <= bounds.maxLng;
+}
+
+/** Whether a location is in India, by the state or country typed in or else its coordinates. */
+export function isInIndia(location: LocationData) {
+  return Boolean(indianStateByName(location.state)) || isPlaceNamed(location, ["India"]) || within(location, INDIA_BOUNDS);
+}
+
+/**
+ * The system users in a place are most likely to know, by the state or
+ * country typed in or else its coordinates; WRB elsewhere.
+ */
+export function defaultTaxonomySystem(location: LocationData | null): TaxonomySystem {
+  if (!location) return "usda";
+  if (isInIndia(location)) return "india";
+  if (isPlaceNamed(location, US_PLACES) || within(location, US_BOUNDS)) return "usda";
+  return "wrb";
+}
@@ -0,0 +1,153 @@
+import type { SoilTexture } from "@/lib/soil/types";
+
+/** A point on the texture triangle as (sand, clay) percentages; silt is the rest. */
+export type TexturePoint = [sand: number, clay: number];
+
+export interface TextureClass {
+  type: string;
+  description: string;
+  /** Outline of the class on the USDA texture triangle. */
+  polygon: TexturePoint[];
+}
+
+// Class outlines follow the USDA NRCS texture definitions
+export const TEXTURE_CLASSES: TextureClass[] = [
+  {
+    type: "Sand",
+    description: "Loose, fast-draining soil that holds little water or nutrient",
+    polygon: [[100, 0], [85, 0], [90, 10]],
+  },
+  {
+    type: "Loamy Sand",
+    description: "Light soil that drains quickly and warms early in spring",
+    polygon: [[85, 0], [70, 0], [85, 15], [90, 10]],
+  },
+  {
+    type: "Sandy Loam",
+    description: "Well-draining soil good for root vegetables",
+    polygon: [[85, 15], [70, 0], [50, 0], [43, 7], [52, 7], [52, 20], [80, 20]],
+  },
+  {
+    type: "Loam",
+    description: "Balanced soil that drains well and holds nutrients",
+    polygon: [[43, 7], [52, 7], [52, 20], [45, 27], [23, 27]],
+  },
+  {
+    type: "Silt Loam",
+    description: "Nutrient-rich soil with good water retention",
+    polygon: [[50, 0], [20, 0], [8, 12], [0, 12], [0, 27], [23, 27]],
+  },
+  {
+    type: "Silt",
+    description: "Smooth, fertile soil that crusts and compacts easily",
+    polygon: [[20, 0], [0, 0], [0, 12], [8, 12]],
+  },
+  {
+    type: "Sandy Clay Loam",
+    description: "Firm soil with moderate drainage and fair fertility",
+    polygon: [[52, 20], [80, 20], [65, 35], [45, 35], [45, 27]],
+  },
+  {
+    type: "Clay Loam",
+    description: "Rich, fertile soil ideal for most crops",
+    polygon: [[45, 27], [20, 27], [20, 40], [45, 40]],
+  },
+  {
+    type: "Silty Clay Loam",
+    description: "Fertile, moisture-retentive soil that turns sticky when wet",
+    polygon: [[20, 27], [0, 27], [0, 40], [20, 40]],
+  },
+  {
+    type: "Sandy Clay",
+    description: "Dense soil that drains slowly despite its sand content",
+    polygon: [[45, 35], [65, 35], [45, 55]],
+  },
+  {
+    type: "Silty Clay",
+    description: "Heavy, fertile soil that cracks when dry and waterlogs when wet",
+    polygon: [[20, 40], [0, 40], [0, 60]],
+  },
+  {
+    type: "Clay",
+    description: "Heavy soil that retains water well",
+    polygon: [[45, 40], [20, 40], [0, 60], [0, 100], [45, 55]],
+  },
+];
+
+/**
+ * Projects a texture point onto the plane of an equilateral triangle with
+ * sand at the bottom-left, silt at the bottom-right and clay at the top, so
+ * distances are the same in every direction. Units are percentage points.
+ */
+export function toTriangle([sand, clay]: TexturePoint): [x: number, y: number] {
+  const silt = 100 - sand - clay;
+  return [silt + clay / 2, clay * Math.sqrt(3) / 2];
+}
+
+/** Inverse of `toTriangle`. */
+export function fromTriangle([x, y]: [number, number]): TexturePoint {
+  const clay = y * 2 / Math.sqrt(3);
+  const silt = x - clay / 2;
+  return [100 - silt - clay, clay];
+}
+
+/** USDA texture class of a composition, by the NRCS rules. */
+export function usdaTextureClass(sand: number, silt: number, clay: number) {
+  if (silt + 1.5 * clay < 15) return "Sand";
+  if (silt + 2 * clay < 30) return "Loamy Sand";
+  if ((clay >= 7 && clay < 20 && sand > 52) || (clay < 7 && silt < 50)) return "Sandy Loam";
+  if (clay >= 7 && clay < 27 && silt >= 28 && silt < 50 && sand <= 52) return "Loam";
+  if (silt >= 80 && clay < 12) return "Silt";
+  if (silt >= 50 && clay < 27) return "Silt Loam";
+  if (clay >= 20 && clay < 35 && silt < 28 && sand > 45) return "Sandy Clay Loam";
+  if (clay >= 27 && clay < 40 && sand > 20 && sand <= 45) return "Clay Loam";
+  if (clay >= 27 && clay < 40) return "Silty Clay Loam";
+  if (clay >= 35 && sand > 45) return "Sandy Clay";
+  if (clay >= 40 && silt >= 40) return "Silty Clay";
+  return "Clay";
+}
+
+function segmentDistance(p: [number, number], a: [number, number], b: [number, number]) {
+  const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/**
+ * Distance on the triangle from a texture point to the nearest edge of a
+ * class outline, in percentage points. Zero when the class contains it.
+ */
+export function distanceToClass(point: TexturePoint, textureClass: TextureClass) {
+  const [sand, clay] = point;
+  if (usdaTextureClass(sand, 100 - sand - clay, clay) === textureClass.type) return 0;
+
+  const p = toTriangle(point);
+  const vertices = textureClass.polygon.map(toTriangle);
+  return Math.min(...vertices.map((v, i) => segmentDistance(p, v, vertices[(i + 1) % vertices.length])));
+}
+
+export function getTextureClass(type: string) {
+  return TEXTURE_CLASSES.find((c) => c.type === type);
+}
+
+/**
+ * Places a texture estimate on the triangle and scores every class by how
+ * far it is from the estimate, treating `uncertainty` as the standard
+ * deviation of a circular spread around the point. Most likely class first.
+ */
+export function scoreTextureClasses(texture: Pick<SoilTexture, "sand" | "clay" | "uncertainty">) {
+  const point: TexturePoint = [texture.sand, texture.clay];
+  const scored = TEXTURE_CLASSES.map((textureClass) => {
+    const distance = distanceToClass(point, textureClass);
+    return {
+      type: textureClass.type,
+      distance,
+      weight: Math.exp(-(distance * distance) / (2 * texture.uncertainty * texture.uncertainty)),
+    };
+  });
+  const sum = scored.reduce((acc, s) => acc + s.weight, 0);
+
+  return scored
+    .map(({ type, distance, weight }) => ({ type, distance, probability: weight / sum }))
+    .sort((a, b) => b.probability - a.probability);
+}
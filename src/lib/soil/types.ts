@@ -0,0 +1,236 @@
+export interface WeatherData {
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  description: string;
+}
+
+export interface MunsellColor {
+  hue: string;
+  value: number;
+  chroma: number;
+  notation: string;
+}
+
+export interface SoilClassProbability {
+  type: string;
+  /**
+   * Share of the classifier's score, in [0, 1]. The scoring is tuned by hand,
+   * not fitted to lab-tested samples, so it ranks classes rather than giving
+   * how often the reading is right.
+   */
+  probability: number;
+}
+
+/** Estimated particle-size composition, in percent. */
+export interface SoilTexture {
+  sand: number;
+  silt: number;
+  clay: number;
+  /** Standard deviation of the estimate on the texture triangle, in percentage points. */
+  uncertainty: number;
+  /** Distance to the nearest other texture class, in percentage points. */
+  boundaryDistance: number;
+  /** Whether the composition was estimated from the photo or measured by a lab. */
+  source: "image" | "lab";
+}
+
+/** Part of the image to analyse, as fractions (0–1) of its width and height. */
+export interface SoilRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type LabParameterKey =
+  | "ph"
+  | "ec"
+  | "organicCarbon"
+  | "nitrogen"
+  | "phosphorus"
+  | "potassium"
+  | "sulfur"
+  | "zinc"
+  | "iron"
+  | "manganese"
+  | "copper"
+  | "boron"
+  | "sand"
+  | "silt"
+  | "clay";
+
+/** Measured values from a soil test, in the units of `LAB_PARAMETERS`. */
+export type LabValues = Partial<Record<LabParameterKey, number>>;
+
+/** White-balance and exposure correction taken from a reference card in the photo. */
+export interface ColorCalibration {
+  /** Id of the reference card, one of `REFERENCE_CARDS`. */
+  reference: string;
+  method: "auto" | "tap";
+  /** Where the card was sampled, as fractions of the image size. */
+  point: { x: number; y: number };
+  /** Measured card colour before correction, in sRGB. */
+  sample: { r: number; g: number; b: number };
+  /** Linear-light gains applied to the red, green and blue channels. */
+  gains: [number, number, number];
+}
+
+/** What produced a result, so it can be reproduced and explained later. */
+export interface ResultProvenance {
+  /** Id of the model provider or rules engine. */
+  provider: string;
+  version: string;
+  /** `KNOWLEDGE_BASE_VERSION` at the time. */
+  knowledgeBase: string;
+  /** Hash of the inputs, prefixed with the algorithm, e.g. "sha256:…". */
+  inputHash: string;
+}
+
+export type MoistureState = "dry" | "moist" | "wet";
+
+/** Surface moisture, read from how dark the soil looks. */
+export interface MoistureEstimate {
+  state: MoistureState;
+  /** Probability of `state`, 0–100. */
+  confidence: number;
+}
+
+export type OrganicMatterBand = "low" | "medium" | "high";
+
+export interface OrganicMatterEstimate {
+  band: OrganicMatterBand;
+  /** Likely organic matter content, in percent by weight. */
+  range: [min: number, max: number];
+  /** Probability of `band`, 0–100. */
+  confidence: number;
+  /** "lab" when derived from measured organic carbon. */
+  source: "image" | "lab";
+}
+
+export interface SoilResult {
+  type: string;
+  /** Score of `type`, 0–100, on the same uncalibrated scale as `alternatives`. */
+  confidence: number;
+  description: string;
+  /** Absent when the result comes from lab values alone, without a photo. */
+  color?: string;
+  munsell?: MunsellColor;
+  /** Runner-up classes, most likely first. */
+  alternatives: SoilClassProbability[];
+  texture: SoilTexture;
+  /** Region the classifier looked at; absent when it used the whole image. */
+  region?: SoilRegion;
+  /** Colour correction applied before classification, if any. */
+  calibration?: ColorCalibration;
+  /** Absent when the provider does not estimate it. */
+  moisture?: MoistureEstimate;
+  organicMatter?: OrganicMatterEstimate;
+  /** Lab-measured values; they take precedence over image estimates. */
+  lab?: LabValues;
+  /** The photo the result was computed from. */
+  image?: ImageMetadata;
+  /** Share of images, 0–100, whose own class matches `type`; set for multi-image samples. */
+  agreement?: number;
+  /** Each image's own result when a sample has several images. */
+  images?: SoilImageResult[];
+  /**
+   * Covers the image, region and calibration; lab values are kept on the
+   * result itself.
+   */
+  provenance?: ResultProvenance;
+}
+
+export interface SoilImageResult {
+  name: string;
+  type: string;
+  confidence: number;
+  color: string;
+  texture: Pick<SoilTexture, "sand" | "silt" | "clay">;
+  region?: SoilRegion;
+  calibration?: ColorCalibration;
+  image?: ImageMetadata;
+  provenance?: ResultProvenance;
+}
+
+export type WaterNeed = "low" | "medium" | "high";
+
+export type SuitabilityFactorId =
+  | "texture"
+  | "ph"
+  | "salinity"
+  | "temperature"
+  | "rainfall"
+  | "organicMatter"
+  | "season"
+  | "localPractice";
+
+/** How one site condition scores against a crop's requirements. */
+export interface SuitabilityFactor {
+  id: SuitabilityFactorId;
+  label: string;
+  /** The site's value, for display. */
+  observed: string;
+  /** The crop's optimum, for display. */
+  preferred: string;
+  /** 0–100; null when the value is unknown, which leaves it out of the total. */
+  score: number | null;
+  /** Points this factor took off a perfect 100, as a negative number; 0 when it cost nothing. */
+  impact: number;
+  note: string;
+}
+
+export type IndianSeason = "kharif" | "rabi" | "zaid";
+export type TemperateSeason = "spring" | "summer" | "autumn";
+export type CroppingSeason = IndianSeason | TemperateSeason;
+
+/** The next time a crop can be sown; dates are local, as YYYY-MM-DD. */
+export interface SowingWindow {
+  season: CroppingSeason;
+  name: string;
+  start: string;
+  end: string;
+  /** 0 while the window is open. */
+  opensInDays: number;
+}
+
+export interface CropSuggestion {
+  name: string;
+  suitability: number;
+  /** Name of the season of the next sowing window. */
+  season: string;
+  reason: string;
+  details: string;
+  /** Per-factor scores behind `suitability`. */
+  factors?: SuitabilityFactor[];
+  /** Sowing to harvest, in days. */
+  durationDays?: [min: number, max: number];
+  sowingWindow?: SowingWindow;
+  waterNeed?: WaterNeed;
+  /** Watering advice for this soil and the current conditions. */
+  irrigation?: string;
+  provenance?: ResultProvenance;
+}
+
+export interface LocationData {
+  /** Absent for a place typed in by name; names are not geocoded. */
+  lat?: number;
+  lng?: number;
+  city?: string;
+  /** State, province or country. */
+  state?: string;
+  /** "photo" when taken from the sample photo's GPS tags. */
+  source?: "device" | "photo" | "manual";
+}
+
+/** What is known about the photo itself; EXIF fields are absent when the camera did not record them. */
+export interface ImageMetadata {
+  /** ISO 8601; carries an offset only when the camera recorded one. */
+  capturedAt?: string;
+  location?: { lat: number; lng: number };
+  /** Pixel size of the photo as taken, before any client-side resize. */
+  width?: number;
+  height?: number;
+  /** True when a smaller copy was analyzed and uploaded. */
+  resized?: boolean;
+}
@@ -0,0 +1,65 @@
+import type { PixelData } from "@/lib/soil/features";
+import { assessImageQuality } from "@/lib/soil/quality";
+
+export type ViewfinderHint = "tooDark" | "tooBright" | "moveCloser" | "holdSteady" | "focus";
+
+// Most important first; only the first hint is shown prominently
+export const VIEWFINDER_HINTS: Record<ViewfinderHint, string> = {
+  tooDark: "Too dark – move into daylight",
+  tooBright: "Too bright – shade the sample",
+  moveCloser: "Move closer – fill the frame with soil",
+  holdSteady: "Hold steady",
+  focus: "Blurry – let the camera focus",
+};
+
+/** Side, in pixels, that the framed area is sampled at for live checks. */
+export const VIEWFINDER_SAMPLE_SIDE = 128;
+
+// Mean luma change between consecutive samples that counts as camera shake
+const MOTION_THRESHOLD = 10;
+
+export interface ViewfinderState {
+  hints: ViewfinderHint[];
+  /** True when nothing stands in the way of a good photo. */
+  ready: boolean;
+}
+
+function luma(data: Uint8ClampedArray, i: number) {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+function meanLuma({ data }: PixelData) {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += luma(data, i);
+  return sum / (data.length / 4);
+}
+
+function motionBetween(current: PixelData, previous: PixelData) {
+  if (current.data.length !== previous.data.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < current.data.length; i += 4) {
+    sum += Math.abs(luma(current.data, i) - luma(previous.data, i));
+  }
+  return sum / (current.data.length / 4);
+}
+
+/**
+ * Live checks on the framed part of a viewfinder frame, using the same
+ * quality checks as the upload gate plus frame-to-frame motion.
+ */
+export function assessViewfinderFrame(frame: PixelData, previous: PixelData | null): ViewfinderState {
+  const report = assessImageQuality(frame);
+  const check = (id: string) => report.checks.find((c) => c.id === id)!;
+  const hints: ViewfinderHint[] = [];
+
+  if (check("exposure").status !== "pass") {
+    hints.push(meanLuma(frame) < 110 ? "tooDark" : "tooBright");
+  }
+  if (check("soilCoverage").status !== "pass") hints.push("moveCloser");
+
+  const moving = previous !== null && motionBetween(frame, previous) > MOTION_THRESHOLD;
+  if (moving) hints.push("holdSteady");
+  else if (check("sharpness").status !== "pass") hints.push("focus");
+
+  return { hints, ready: hints.length === 0 };
+}
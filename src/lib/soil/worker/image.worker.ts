@@ -0,0 +1,37 @@
+import { isAbortError } from "@/lib/soil/progress";
+import { performImageTask } from "@/lib/soil/worker/tasks";
+import type { WorkerRequest, WorkerResponse } from "@/lib/soil/worker/types";
+
+const running = new Map<number, AbortController>();
+
+function reply(response: WorkerResponse) {
+  postMessage(response);
+}
+
+addEventListener("message", async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.kind === "cancel") {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, task } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  try {
+    const result = await performImageTask(task, {
+      signal: controller.signal,
+      onStage: (stage) => reply({ kind: "stage", id, stage }),
+    });
+    if (!controller.signal.aborted) reply({ kind: "done", id, result });
+  } catch (error) {
+    // The caller has already given up on a cancelled task
+    if (!isAbortError(error)) {
+      reply({ kind: "error", id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    running.delete(id);
+  }
+});
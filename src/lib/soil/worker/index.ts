@@ -0,0 +1,86 @@
+import { performImageTask } from "@/lib/soil/worker/tasks";
+import type {
+  ImageTask,
+  ImageTaskOptions,
+  ImageTaskResult,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/soil/worker/types";
+
+export type { AnalyzeImageResult, ImageTask, ImageTaskOptions, ReferencePatch } from "@/lib/soil/worker/types";
+
+interface PendingTask {
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+  onStage?: ImageTaskOptions["onStage"];
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingTask>();
+
+/** Workers can only decode to pixels where OffscreenCanvas exists. */
+export function supportsImageWorker() {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+}
+
+function getWorker() {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./image.worker.ts", import.meta.url), { type: "module" });
+  worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const task = pending.get(response.id);
+    if (!task) return;
+
+    if (response.kind === "stage") {
+      task.onStage?.(response.stage);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.kind === "done") task.resolve(response.result as never);
+    else task.reject(new Error(response.message));
+  });
+  worker.addEventListener("error", (event) => {
+    // A crashed worker cannot be trusted with further tasks; start afresh next time
+    for (const task of pending.values()) task.reject(new Error(event.message || "Image worker failed"));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+}
+
+/**
+ * Runs an image task in the shared image worker, or on the main thread where
+ * workers cannot decode images. Aborting `signal` rejects straight away with
+ * an `AbortError` and tells the worker to drop the task.
+ */
+export function runImageTask<T extends ImageTask>(
+  task: T,
+  options: ImageTaskOptions = {}
+): Promise<ImageTaskResult<T>> {
+  if (!supportsImageWorker()) return performImageTask(task, options);
+
+  const { signal, onStage } = options;
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const target = getWorker();
+  const id = nextId++;
+
+  return new Promise<ImageTaskResult<T>>((resolve, reject) => {
+    const onAbort = () => {
+      pending.delete(id);
+      target.postMessage({ kind: "cancel", id } satisfies WorkerRequest);
+      reject(signal!.reason);
+    };
+    const settle = <A extends unknown[]>(fn: (...args: A) => void) => (...args: A) => {
+      signal?.removeEventListener("abort", onAbort);
+      fn(...args);
+    };
+
+    pending.set(id, { resolve: settle(resolve), reject: settle(reject), onStage });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    target.postMessage({ kind: "run", id, task } satisfies WorkerRequest);
+  });
+}
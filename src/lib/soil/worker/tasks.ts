@@ -0,0 +1,75 @@
+import { applyCalibration, detectReferencePatch, sampleReferencePatch } from "@/lib/soil/calibration";
+import { extractDominantColor } from "@/lib/soil/features";
+import { computeClassHeatmap } from "@/lib/soil/heatmap";
+import { loadImagePixels, prepareImage } from "@/lib/soil/image";
+import { yieldToBrowser, type AnalysisStage } from "@/lib/soil/progress";
+import { assessImageQuality } from "@/lib/soil/quality";
+import type { ImageTask, ImageTaskOptions, ImageTaskResult, ImageTaskResults } from "@/lib/soil/worker/types";
+
+async function loadCalibrated(task: Extract<ImageTask, { region: unknown }>) {
+  const pixels = await loadImagePixels(task.file, task.region);
+  return task.calibration ? applyCalibration(pixels, task.calibration) : pixels;
+}
+
+/**
+ * Runs an image task in the current thread. The worker calls this for each
+ * request; it is also the fallback where workers or OffscreenCanvas are
+ * missing. Yields between stages so a cancel can take effect.
+ */
+export async function performImageTask<T extends ImageTask>(
+  task: T,
+  { signal, onStage }: ImageTaskOptions = {}
+): Promise<ImageTaskResult<T>> {
+  const enterStage = async (stage: AnalysisStage) => {
+    onStage?.(stage);
+    await yieldToBrowser(signal);
+  };
+
+  let result: ImageTaskResults[keyof ImageTaskResults];
+  switch (task.type) {
+    case "prepare":
+      result = await prepareImage(task.file);
+      break;
+    case "analyze": {
+      await enterStage("decoding");
+      const pixels = await loadCalibrated(task);
+
+      await enterStage("quality");
+      const quality = assessImageQuality(pixels);
+      if (quality.status === "block") {
+        result = { quality, dominant: null };
+        break;
+      }
+
+      await enterStage("colour");
+      result = { quality, dominant: extractDominantColor(pixels) };
+      break;
+    }
+    case "quality": {
+      const pixels = await loadCalibrated(task);
+      await yieldToBrowser(signal);
+      result = assessImageQuality(pixels);
+      break;
+    }
+    case "heatmap": {
+      const pixels = await loadImagePixels(task.file);
+      await yieldToBrowser(signal);
+      const calibrated = task.calibration ? applyCalibration(pixels, task.calibration) : pixels;
+      result = computeClassHeatmap(calibrated, task.region);
+      break;
+    }
+    case "locateReference": {
+      // The card may sit outside the soil region, so sample the whole image
+      const pixels = await loadImagePixels(task.file);
+      await yieldToBrowser(signal);
+      if (task.point) {
+        const sample = sampleReferencePatch(pixels, task.point);
+        result = sample && { point: task.point, sample };
+      } else {
+        result = detectReferencePatch(pixels);
+      }
+      break;
+    }
+  }
+  return result as ImageTaskResult<T>;
+}
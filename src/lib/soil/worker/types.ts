@@ -0,0 +1,76 @@
+import type { RGB } from "@/lib/soil/color";
+import type { DominantColor } from "@/lib/soil/features";
+import type { ClassHeatmap } from "@/lib/soil/heatmap";
+import type { PreparedImage } from "@/lib/soil/image";
+import type { AnalysisStage } from "@/lib/soil/progress";
+import type { QualityReport } from "@/lib/soil/quality";
+import type { ColorCalibration, SoilRegion } from "@/lib/soil/types";
+
+/** Pixel work that runs off the main thread. */
+export type ImageTask =
+  | {
+      /** Decode, quality-check and extract the dominant soil colour. */
+      type: "analyze";
+      file: Blob;
+      region: SoilRegion | null;
+      calibration: ColorCalibration | null;
+    }
+  | {
+      type: "quality";
+      file: Blob;
+      region: SoilRegion | null;
+      calibration: ColorCalibration | null;
+    }
+  | {
+      /** Decode any supported format and shrink or re-encode it for upload. */
+      type: "prepare";
+      file: Blob;
+    }
+  | {
+      /** Score a grid over the whole image; `region` picks the dominant colour. */
+      type: "heatmap";
+      file: Blob;
+      region: SoilRegion | null;
+      calibration: ColorCalibration | null;
+    }
+  | {
+      /** Sample the tapped point, or search the whole image when `point` is absent. */
+      type: "locateReference";
+      file: Blob;
+      point?: { x: number; y: number };
+    };
+
+export interface AnalyzeImageResult {
+  quality: QualityReport;
+  /** Null when the quality gate blocked analysis or no soil was found. */
+  dominant: DominantColor | null;
+}
+
+export interface ReferencePatch {
+  point: { x: number; y: number };
+  sample: RGB;
+}
+
+export interface ImageTaskResults {
+  prepare: PreparedImage;
+  analyze: AnalyzeImageResult;
+  quality: QualityReport;
+  heatmap: ClassHeatmap;
+  locateReference: ReferencePatch | null;
+}
+
+export type ImageTaskResult<T extends ImageTask> = ImageTaskResults[T["type"]];
+
+export interface ImageTaskOptions {
+  signal?: AbortSignal;
+  onStage?: (stage: AnalysisStage) => void;
+}
+
+export type WorkerRequest =
+  | { kind: "run"; id: number; task: ImageTask }
+  | { kind: "cancel"; id: number };
+
+export type WorkerResponse =
+  | { kind: "stage"; id: number; stage: AnalysisStage }
+  | { kind: "done"; id: number; result: ImageTaskResults[keyof ImageTaskResults] }
+  | { kind: "error"; id: number; message: string };